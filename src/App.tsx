@@ -6,10 +6,14 @@ import { Footer } from './components/Footer';
 import { Chess } from './components/Chess';
 import { Settings } from './components/Settings';
 import { Home } from './components/Home';
+import { Setup } from './components/Setup';
+import { Games } from './components/Games';
+import { GameReplay } from './components/GameReplay';
 import { SettingsProvider } from './providers/SettingsProvider';
 import { ThemeProvider } from './providers/ThemeProvider';
 import { GlobalStyles } from './theme/global';
 import { ChessProvider } from './providers/ChessProvider';
+import { USE_HASH_ROUTER } from './util/links';
 
 const Container = styled.div`
   max-width: 1000px;
@@ -22,8 +26,7 @@ const Container = styled.div`
   background: ${props => props.theme.colors.background};
 `;
 
-const useHashRouter: boolean = true;
-const Router = useHashRouter ? HashRouter : BrowserRouter;
+const Router = USE_HASH_ROUTER ? HashRouter : BrowserRouter;
 
 function App(): JSX.Element {
   const [settingsOpen, setSettingsOpen] = useState(false);
@@ -47,11 +50,32 @@ function App(): JSX.Element {
                   <Chess type='bot' />
                 </ChessProvider>
               } />
+              <Route path="/game/bots" element={
+                <ChessProvider>
+                  <Chess type='bots' />
+                </ChessProvider>
+              } />
               <Route path="/game" element={
                 <ChessProvider>
                   <Chess type="local" />
                 </ChessProvider>
               } />
+              <Route path="/analysis/:pgn" element={
+                <ChessProvider>
+                  <Chess type="local" />
+                </ChessProvider>
+              } />
+              <Route path="/games" element={
+                <Games />
+              } />
+              <Route path="/games/:id" element={
+                <ChessProvider>
+                  <GameReplay />
+                </ChessProvider>
+              } />
+              <Route path="/setup" element={
+                <Setup />
+              } />
             </Routes>
             <Footer />
             {
@@ -0,0 +1,92 @@
+import type { AIMoveResponse, Evaluation, EvaluationLine } from './chessApi';
+import type { EngineRequest, EngineResponse } from '@/game/engine.worker';
+import { SearchLine, SearchOptions } from '@/game/engine';
+import { abortError } from './request';
+
+// one worker is shared by every request, and started the first time it is needed
+let worker: Worker | undefined;
+let nextId = 0;
+const pending = new Map<number, { resolve: (response: EngineResponse) => void, reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../game/engine.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data }: MessageEvent<EngineResponse>) => {
+    const request = pending.get(data.id);
+    pending.delete(data.id);
+    request?.resolve(data);
+  };
+  worker.onerror = (event) => {
+    // a broken worker is replaced for the next request
+    console.error('built-in engine failed:', event.message);
+    stopWorker();
+    pending.forEach(({ reject }) => reject(new Error('built-in engine failed')));
+    pending.clear();
+  };
+  return worker;
+};
+
+const stopWorker = () => {
+  worker?.terminate();
+  worker = undefined;
+};
+
+/* the search can't be interrupted, so a cancelled request stops the worker if nothing else is waiting on it */
+const searchInWorker = (fen: string, options: SearchOptions, signal?: AbortSignal): Promise<EngineResponse> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const request: EngineRequest = { id: nextId++, fen, options };
+    const onAbort = () => {
+      pending.delete(request.id);
+      if (pending.size === 0) stopWorker();
+      reject(abortError());
+    };
+    pending.set(request.id, {
+      resolve: response => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    getWorker().postMessage(request);
+  });
+};
+
+/* a move from the engine that runs in the browser, which is slower but works offline */
+export const getBuiltinMove = async (fen: string, options: SearchOptions = {}, signal?: AbortSignal): Promise<AIMoveResponse> => {
+  const data = await searchInWorker(fen, options, signal);
+  return {
+    move: data.from && data.to ? `${data.from}${data.to}${data.promotion ?? ''}` : null,
+    from_square: data.from ?? null,
+    to_square: data.to ?? null,
+    promotion: data.promotion ?? null,
+    error: data.error ?? null,
+    time_used: data.time,
+  };
+};
+
+/* the engine's opinion of a position, which it gives from the side to move and is turned to white's */
+export const getBuiltinEvaluation = async (fen: string, options: SearchOptions = {}, signal?: AbortSignal): Promise<Evaluation> => {
+  const data = await searchInWorker(fen, { ...options, randomness: 0 }, signal);
+  if (data.error) {
+    throw new Error(data.error);
+  }
+
+  const sign = fen.split(' ')[1] === 'b' ? -1 : 1;
+  const toLine = ({ score, mate, pv }: Partial<SearchLine>): EvaluationLine => ({
+    score_cp: mate === undefined && score !== undefined ? sign * score : null,
+    mate: mate !== undefined ? sign * mate : null,
+    best_line: pv ?? [],
+  });
+  return {
+    ...toLine(data),
+    depth: data.depth,
+    lines: data.lines?.map(toLine),
+  };
+};
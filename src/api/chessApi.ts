@@ -1,26 +1,340 @@
+import { getBuiltinEvaluation, getBuiltinMove } from './builtinEngine';
+import { MAX_SKILL_LEVEL, UciInfo, UciSettings, getUciLines, getUciMove } from './uciEngine';
+import { RequestError, isAbortError, withRetry, withTimeout } from './request';
+import { readEventStream } from './eventStream';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000';
 
+/*
+ * where bot moves come from, the AI backend, the engine built into the page,
+ * the backend with the built-in engine taking over if it can't be reached,
+ * or a UCI engine on this computer (through a WebSocket bridge)
+ */
+export type AIProvider = 'server' | 'builtin' | 'fallback' | 'uci';
+
 export interface AIMoveResponse {
   move: string | null;
   from_square: string | null;
   to_square: string | null;
   promotion: string | null;
   error: string | null;
+  info?: UciInfo; /* what a UCI engine said about its search */
+  time_used?: number; /* how long the engine thought for, in ms */
+  ponder?: string; /* the reply the engine expects, in UCI notation */
+}
+
+/* how the engine's search is going before it has chosen a move, from white's side like an evaluation */
+export interface ThinkingInfo {
+  depth?: number;
+  score_cp: number | null;
+  mate: number | null;
+  pv: string[]; /* in UCI notation */
+  nodes?: number;
+  nps?: number;
+  time?: number; /* ms */
+}
+
+export interface AIMoveOptions {
+  /* castling moves are returned as the king moving onto its rook */
+  chess960?: boolean;
+  /* how strongly to play, the backend uses its own default when these are missing */
+  level?: number;
+  skill_level?: number;
+  depth?: number;
+  movetime?: number;
+  randomness?: number;
+  provider?: AIProvider;
+  uci?: UciSettings;
+  /* the whole game rather than just the position, so that repetitions can be avoided */
+  start_fen?: string;
+  moves?: string[]; /* in UCI notation */
+  /* so that the engine can plan its time, the backend and UCI engines use these when no movetime or depth is given */
+  wtime?: number; /* ms */
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  /* cancels the request, e.g. when the move is taken back */
+  signal?: AbortSignal;
+  timeout?: number; /* for each attempt, in ms */
+  retries?: number;
+  onRetry?: (attempt: number, error: Error) => void;
+  /* updates while the engine searches, the backend streams them when it can */
+  onInfo?: (info: ThinkingInfo) => void;
+}
+
+const DEFAULT_TIMEOUT = 20000;
+
+/* one line the engine expects to be played, always from white's side */
+export interface EvaluationLine {
+  score_cp: number | null; /* centipawns, null when there is a forced mate */
+  mate: number | null; /* moves until mate, negative when black mates */
+  best_line: string[]; /* in UCI notation */
 }
 
-export async function getAIMove(fen: string): Promise<AIMoveResponse> {
+/* how good a position is, from the best line */
+export interface Evaluation extends EvaluationLine {
+  depth?: number;
+  lines?: EvaluationLine[]; /* with multipv, the best lines in order, starting with the one above */
+}
+
+export interface EvaluationOptions {
+  chess960?: boolean;
+  provider?: AIProvider;
+  uci?: UciSettings;
+  depth?: number;
+  movetime?: number; /* ms */
+  multipv?: number; /* how many lines to give */
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+const EVALUATION_MOVETIME = 500;
+
+const toEvaluationLine = (data: Record<string, unknown>): EvaluationLine => ({
+  score_cp: typeof data?.score_cp === 'number' ? data.score_cp : null,
+  mate: typeof data?.mate === 'number' ? data.mate : null,
+  best_line: Array.isArray(data?.best_line) ? data.best_line : [],
+});
+
+const serverMoveBody = (fen: string, options: AIMoveOptions): string => {
+  const { level, skill_level, depth, movetime, randomness, start_fen, moves, wtime, btime, winc, binc } = options;
+  return JSON.stringify({
+    fen,
+    chess960: options.chess960 ?? false,
+    level, skill_level, depth, movetime, randomness,
+    start_fen, moves,
+    wtime: wtime !== undefined ? Math.max(0, Math.round(wtime)) : undefined,
+    btime: btime !== undefined ? Math.max(0, Math.round(btime)) : undefined,
+    winc, binc,
+  });
+};
+
+// the backend won't accept the same request again, but it may recover from its own errors
+const responseError = (status: number): RequestError => new RequestError(`API error: ${status}`, status >= 500 || status === 429);
+
+// older backends don't send time_used or ponder
+const toMoveResponse = (data: AIMoveResponse): AIMoveResponse => ({
+  ...data,
+  time_used: typeof data.time_used === 'number' ? data.time_used : undefined,
+  ponder: typeof data.ponder === 'string' && data.ponder !== '' ? data.ponder : undefined,
+});
+
+async function getServerMove(fen: string, options: AIMoveOptions, signal: AbortSignal): Promise<AIMoveResponse> {
   const response = await fetch(`${API_BASE_URL}/api/chess/ai-move`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ fen }),
+    body: serverMoveBody(fen, options),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw responseError(response.status);
+  }
+  return toMoveResponse(await response.json());
+}
+
+// backends without the streaming endpoint are asked for moves in one go until the page is reloaded
+let serverStreamingMissing = false;
+
+/*
+ * the same request as getServerMove, answered with server-sent events: any number of 'info'
+ * events, each a ThinkingInfo, then a 'move' event with the usual response, or an 'error' event
+ */
+async function streamServerMove(fen: string, options: AIMoveOptions, signal: AbortSignal): Promise<AIMoveResponse> {
+  if (serverStreamingMissing || !options.onInfo) {
+    return getServerMove(fen, options, signal);
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/chess/ai-move/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: serverMoveBody(fen, options),
+    signal,
+  });
+
+  if (response.status === 404 || response.status === 405 || response.status === 501) {
+    serverStreamingMissing = true;
+    console.warn('the AI backend can\'t stream its search, asking for moves in one go');
+    return getServerMove(fen, options, signal);
+  }
+  if (!response.ok) {
+    throw responseError(response.status);
+  }
+  // a backend that answered with the move in one go has already searched, so its answer is used
+  if (!(response.headers.get('Content-Type') ?? '').startsWith('text/event-stream')) {
+    serverStreamingMissing = true;
+    return toMoveResponse(await response.json());
+  }
+
+  let result: AIMoveResponse | undefined;
+  let error: string | undefined;
+  await readEventStream(response, ({ event, data }) => {
+    if (event === 'info') {
+      // a garbled update isn't worth losing the move over
+      try {
+        options.onInfo?.(toThinkingInfo(JSON.parse(data)));
+      } catch (e) {
+        console.warn('unreadable info from the AI backend:', data);
+      }
+    } else if (event === 'move') {
+      result = toMoveResponse(JSON.parse(data));
+    } else if (event === 'error') {
+      error = JSON.parse(data).error ?? data;
+    }
+  });
+
+  if (error !== undefined) {
+    throw new RequestError(`AI backend error: ${error}`);
+  }
+  if (!result) {
+    throw new RequestError('the AI backend stopped before sending a move');
+  }
+  return result;
+}
+
+const toThinkingInfo = (data: Record<string, unknown>): ThinkingInfo => {
+  const number = (value: unknown) => typeof value === 'number' ? value : undefined;
+  const { score_cp, mate } = toEvaluationLine(data);
+  return {
+    score_cp,
+    mate,
+    pv: Array.isArray(data.pv) ? data.pv : [],
+    depth: number(data.depth),
+    nodes: number(data.nodes),
+    nps: number(data.nps),
+    time: number(data.time),
+  };
+};
+
+/* one attempt at getting a move, from whichever provider is chosen */
+async function requestMove(fen: string, options: AIMoveOptions): Promise<AIMoveResponse> {
+  const { depth, movetime, randomness, timeout = DEFAULT_TIMEOUT, signal } = options;
+  const builtin = () => withTimeout(signal => getBuiltinMove(fen, { depth, movetime, randomness }, signal), timeout, signal);
+
+  if (options.provider === 'builtin') {
+    return builtin();
+  }
+  if (options.provider === 'uci') {
+    const { uci, wtime, btime, winc, binc } = options;
+    if (!uci) {
+      throw new RequestError('UCI engine settings are missing', false);
+    }
+    // UCI engines score positions for the side to move
+    const sign = fen.split(' ')[1] === 'b' ? -1 : 1;
+    const { onInfo } = options;
+    return withTimeout(signal => getUciMove(
+      { ...uci, skillLevel: uci.skillLevel ?? options.skill_level },
+      { fen: options.start_fen ?? fen, moves: options.start_fen ? options.moves ?? [] : [], chess960: options.chess960 },
+      { depth, movetime, wtime, btime, winc, binc },
+      signal,
+      onInfo && (({ depth, score, pv, nodes, nps, time }) => onInfo({
+        depth, nodes, nps, time,
+        score_cp: score?.cp !== undefined ? sign * score.cp : null,
+        mate: score?.mate !== undefined ? sign * score.mate : null,
+        pv: pv ?? [],
+      })),
+    ), timeout, signal);
+  }
+
+  try {
+    return await withTimeout(signal => streamServerMove(fen, options, signal), timeout, signal);
+  } catch (error) {
+    if (options.provider !== 'fallback' || isAbortError(error)) {
+      throw error;
+    }
+    console.warn('AI backend unavailable, using the built-in engine:', error);
+    return builtin();
+  }
+}
+
+export async function getAIMove(fen: string, options: AIMoveOptions = {}): Promise<AIMoveResponse> {
+  const { retries = 0, signal, onRetry } = options;
+  return withRetry(() => requestMove(fen, options), { retries, signal, onRetry });
+}
+
+// once the backend says it can't evaluate positions it isn't asked again until the page is reloaded
+let serverEvaluationMissing = false;
+
+async function getServerEvaluation(fen: string, options: EvaluationOptions, signal: AbortSignal): Promise<Evaluation> {
+  if (serverEvaluationMissing) {
+    throw new RequestError('the AI backend has no evaluation endpoint', false);
+  }
+
+  const { depth, movetime, multipv } = options;
+  const response = await fetch(`${API_BASE_URL}/api/chess/evaluate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ fen, chess960: options.chess960 ?? false, depth, movetime, multipv }),
+    signal,
   });
 
+  if (response.status === 404 || response.status === 405 || response.status === 501) {
+    serverEvaluationMissing = true;
+    throw new RequestError('the AI backend has no evaluation endpoint', false);
+  }
   if (!response.ok) {
-    throw new Error(`API error: ${response.status}`);
+    throw new RequestError(`API error: ${response.status}`, response.status >= 500);
   }
 
-  return response.json();
+  // a backend without multipv only sends the best line
+  const data = await response.json();
+  return {
+    ...toEvaluationLine(data),
+    depth: typeof data.depth === 'number' ? data.depth : undefined,
+    lines: Array.isArray(data.lines) ? data.lines.map(toEvaluationLine) : undefined,
+  };
 }
 
+/* a UCI engine scores positions for the side to move */
+async function getUciEvaluation(fen: string, options: EvaluationOptions, uci: UciSettings, signal: AbortSignal): Promise<Evaluation> {
+  const { depth, movetime = EVALUATION_MOVETIME, multipv } = options;
+  // positions are judged at full strength, whatever level the bot plays at
+  const lines = await getUciLines({ ...uci, skillLevel: MAX_SKILL_LEVEL }, { fen, moves: [], chess960: options.chess960 }, depth !== undefined ? { depth, multipv } : { movetime, multipv }, signal);
+  const sign = fen.split(' ')[1] === 'b' ? -1 : 1;
+  const toLine = (info: UciInfo | undefined): EvaluationLine => ({
+    score_cp: info?.score?.cp !== undefined ? sign * info.score.cp : null,
+    mate: info?.score?.mate !== undefined ? sign * info.score.mate : null,
+    best_line: info?.pv ?? [],
+  });
+  return {
+    ...toLine(lines[0]),
+    depth: lines[0]?.depth,
+    lines: lines.map(toLine),
+  };
+}
+
+/*
+ * how good a position is, from the same place bot moves come from. the built-in engine
+ * takes over when the backend can't evaluate positions, unless only the server is wanted
+ */
+export async function getEvaluation(fen: string, options: EvaluationOptions = {}): Promise<Evaluation> {
+  const { depth, movetime = EVALUATION_MOVETIME, multipv, timeout = DEFAULT_TIMEOUT, signal } = options;
+  const builtin = () => withTimeout(signal => getBuiltinEvaluation(fen, { depth, movetime, multipv }, signal), timeout, signal);
+
+  if (options.provider === 'builtin') {
+    return builtin();
+  }
+  if (options.provider === 'uci') {
+    const { uci } = options;
+    if (!uci) {
+      throw new RequestError('UCI engine settings are missing', false);
+    }
+    return withTimeout(signal => getUciEvaluation(fen, options, uci, signal), timeout, signal);
+  }
+
+  try {
+    return await withTimeout(signal => getServerEvaluation(fen, options, signal), timeout, signal);
+  } catch (error) {
+    if (options.provider !== 'fallback' || isAbortError(error)) {
+      throw error;
+    }
+    return builtin();
+  }
+}
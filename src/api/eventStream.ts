@@ -0,0 +1,49 @@
+/*
+ * reads server-sent events from a fetch response. EventSource can only make GET
+ * requests, and asking for a move needs a body, so the stream is read by hand
+ */
+
+export interface StreamEvent {
+  event: string; /* 'message' when the server doesn't name it */
+  data: string;
+}
+
+/* calls onEvent for each event as it arrives, resolving once the server closes the stream */
+export const readEventStream = async (response: Response, onEvent: (event: StreamEvent) => void): Promise<void> => {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  const readLine = (line: string) => {
+    // a blank line ends an event, and lines starting with a colon are comments
+    if (line === '') {
+      if (data.length > 0) onEvent({ event, data: data.join('\n') });
+      event = 'message';
+      data = [];
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon < 0 ? line : line.slice(0, colon);
+    const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split(/\r?\n/);
+    // the last piece may be the start of a line that hasn't fully arrived
+    buffer = lines.pop() ?? '';
+    lines.forEach(readLine);
+  }
+  if (buffer !== '') readLine(buffer);
+  readLine('');
+};
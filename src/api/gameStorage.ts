@@ -0,0 +1,71 @@
+import { ChessState } from '@/game/state';
+import type { ChessConfig, GameMode } from '@/providers/ChessProvider';
+import type { GameAnalysis } from '@/game/analysis';
+
+const DB_NAME = 'react-chess';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+
+export interface SavedGame {
+  id: string;
+  state: ChessState;
+  config: ChessConfig;
+  startedAt: number;
+  savedAt: number;
+  analysis?: GameAnalysis; /* once the finished game has been analysed */
+}
+
+let database: Promise<IDBDatabase> | undefined;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return database;
+}
+
+async function request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(GAMES_STORE, mode).objectStore(GAMES_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveGame(game: SavedGame): Promise<void> {
+  await request('readwrite', store => store.put(game));
+}
+
+export async function loadGame(id: string): Promise<SavedGame | undefined> {
+  return request('readonly', store => store.get(id));
+}
+
+export async function loadGames(): Promise<SavedGame[]> {
+  return request('readonly', store => store.getAll());
+}
+
+export async function deleteGame(id: string): Promise<void> {
+  await request('readwrite', store => store.delete(id));
+}
+
+const gameMode = ({ player_white, player_black }: ChessConfig): GameMode => {
+  if (player_white === 'bot' && player_black === 'bot') return 'bots';
+  return player_white === 'bot' || player_black === 'bot' ? 'bot' : 'local';
+};
+
+/* the most recently played game that hasn't finished, optionally only those of this mode */
+export async function findUnfinishedGame(mode?: GameMode): Promise<SavedGame | undefined> {
+  const games = await loadGames();
+  return games
+    .filter(game => !game.state.complete)
+    .filter(game => mode === undefined || gameMode(game.config) === mode)
+    .sort((a, b) => b.savedAt - a.savedAt)[0];
+}
@@ -0,0 +1,93 @@
+/* helpers for requests to the AI, which can be cancelled, time out and be tried again */
+
+/* a request that failed, retryable is false when trying again would fail in the same way */
+export class RequestError extends Error {
+  constructor(message: string, readonly retryable = true) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export const abortError = (): Error => new DOMException('the request was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => (error as Error)?.name === 'AbortError';
+
+/* resolves after a delay, or rejects as soon as the signal is aborted */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/*
+ * runs a request that gives up after timeout ms, or when signal is aborted. the request is
+ * given its own signal, which is aborted in both cases so that it can stop what it is doing
+ */
+export const withTimeout = <T>(run: (signal: AbortSignal) => Promise<T>, timeout: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+    };
+    const onCancel = () => {
+      finish();
+      reject(abortError());
+      controller.abort();
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new RequestError(`no reply within ${timeout / 1000} seconds`));
+      controller.abort();
+    }, timeout);
+
+    if (signal?.aborted) return onCancel();
+    signal?.addEventListener('abort', onCancel, { once: true });
+
+    run(controller.signal).then(
+      value => {
+        finish();
+        resolve(value);
+      },
+      error => {
+        finish();
+        reject(error);
+      },
+    );
+  });
+};
+
+export interface RetryOptions {
+  retries: number; /* how many more times to try after the first */
+  delay?: number; /* before the first retry, doubling each time, in ms */
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+const RETRY_DELAY = 500;
+
+/* tries a request again, waiting longer each time, unless it was cancelled or can't succeed */
+export const withRetry = async <T>(run: () => Promise<T>, { retries, delay = RETRY_DELAY, signal, onRetry }: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const retryable = !isAbortError(error) && !(error instanceof RequestError && !error.retryable);
+      if (attempt > retries || !retryable || signal?.aborted) throw error;
+
+      onRetry?.(attempt, error as Error);
+      await sleep(delay * 2 ** (attempt - 1), signal);
+    }
+  }
+};
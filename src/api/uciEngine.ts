@@ -0,0 +1,259 @@
+import type { AIMoveResponse } from './chessApi';
+import { abortError } from './request';
+
+/*
+ * talks to a UCI engine running on this computer through a bridge, which is a small
+ * process that starts the engine and passes text between it and a WebSocket.
+ * every message is one or more lines of UCI, in either direction
+ */
+
+export interface UciSettings {
+  url: string;
+  hash: number; /* MB */
+  threads: number;
+  skillLevel?: number; /* 0 to 20, the bot's level is used when this is missing */
+}
+
+export interface UciPosition {
+  fen: string; /* where the game started */
+  moves: string[]; /* in UCI notation, e.g. e2e4 or e7e8q */
+  chess960?: boolean;
+}
+
+/* how long to think, movetime and depth take priority over the clocks */
+export interface UciLimits {
+  movetime?: number;
+  depth?: number;
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  multipv?: number; /* how many of the best moves to follow, which is an option rather than a limit */
+}
+
+export interface UciInfo {
+  depth?: number;
+  seldepth?: number;
+  score?: { cp?: number, mate?: number };
+  nodes?: number;
+  nps?: number;
+  time?: number;
+  multipv?: number; /* which of the best moves this line is for, counting from 1 */
+  pv?: string[];
+}
+
+/* full strength, for when no level is given and for looking at positions rather than playing */
+export const MAX_SKILL_LEVEL = 20;
+
+const HANDSHAKE_TIMEOUT = 5000;
+/* added to movetime, or used when the engine is given clocks */
+const MOVE_TIMEOUT = 30000;
+
+/* the fields of an info line, e.g. "info depth 12 score cp 31 nodes 40312 pv e2e4 e7e5" */
+export const parseInfo = (line: string): UciInfo => {
+  const tokens = line.trim().split(/\s+/);
+  const info: UciInfo = {};
+
+  for (let i = 1; i < tokens.length; i++) {
+    const number = () => parseInt(tokens[++i]);
+    switch (tokens[i]) {
+      case 'depth': info.depth = number(); break;
+      case 'seldepth': info.seldepth = number(); break;
+      case 'nodes': info.nodes = number(); break;
+      case 'nps': info.nps = number(); break;
+      case 'time': info.time = number(); break;
+      case 'multipv': info.multipv = number(); break;
+      case 'score': {
+        const type = tokens[++i];
+        const value = number();
+        info.score = type === 'mate' ? { mate: value } : { cp: value };
+        // lowerbound and upperbound only describe the score
+        if (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') i++;
+        break;
+      }
+      case 'pv':
+        info.pv = tokens.slice(i + 1);
+        i = tokens.length;
+        break;
+      case 'string':
+        i = tokens.length;
+        break;
+    }
+  }
+  return info;
+};
+
+type LineListener = (line: string) => void;
+
+class UciConnection {
+  private socket: WebSocket;
+  private listeners: LineListener[] = [];
+  private options: Record<string, string> = {};
+  private queue: Promise<unknown>;
+  closed = false;
+
+  constructor(readonly url: string) {
+    this.socket = new WebSocket(url);
+    this.socket.onmessage = ({ data }) => {
+      for (const line of String(data).split(/\r?\n/)) {
+        if (line.trim() === '') continue;
+        this.listeners.forEach(listener => listener(line.trim()));
+      }
+    };
+    this.socket.onclose = () => {
+      this.closed = true;
+    };
+
+    const opened = new Promise<void>((resolve, reject) => {
+      this.socket.onopen = () => resolve();
+      this.socket.onerror = () => reject(new Error(`unable to connect to the UCI bridge at ${url}`));
+    });
+    this.queue = opened
+      .then(() => this.command('uci', line => line === 'uciok', HANDSHAKE_TIMEOUT))
+      .catch(error => {
+        // the next move will try to connect again
+        this.close();
+        throw error;
+      });
+  }
+
+  close() {
+    this.closed = true;
+    this.socket.close();
+  }
+
+  /* sends a command and waits for the line that ends its reply, passing on every line on the way */
+  private command(command: string, done: (line: string) => boolean, timeout: number, onLine?: LineListener): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const finish = (error?: Error, line?: string) => {
+        clearTimeout(timer);
+        this.socket.removeEventListener('close', onClose);
+        this.listeners = this.listeners.filter(l => l !== listener);
+        error ? reject(error) : resolve(line as string);
+      };
+      const listener = (line: string) => {
+        onLine?.(line);
+        if (done(line)) finish(undefined, line);
+      };
+      const onClose = () => finish(new Error('the UCI bridge closed the connection'));
+      const timer = setTimeout(() => finish(new Error(`the UCI engine didn't reply to '${command.split(' ')[0]}'`)), timeout);
+
+      this.listeners.push(listener);
+      this.socket.addEventListener('close', onClose);
+      this.socket.send(command);
+    });
+  }
+
+  /* only options that have changed are sent, as some engines clear their hash when it is set */
+  private async setOptions(options: Record<string, string | number | boolean>) {
+    let changed = false;
+    for (const [name, value] of Object.entries(options)) {
+      if (this.options[name] === String(value)) continue;
+      this.options[name] = String(value);
+      this.socket.send(`setoption name ${name} value ${value}`);
+      changed = true;
+    }
+    if (changed) {
+      await this.command('isready', line => line === 'readyok', HANDSHAKE_TIMEOUT);
+    }
+  }
+
+  private async search(settings: UciSettings, position: UciPosition, limits: UciLimits, signal?: AbortSignal, onInfo?: (info: UciInfo) => void) {
+    // a search that was cancelled while it waited in the queue doesn't need to start
+    if (signal?.aborted) throw abortError();
+
+    // every option is given each time, as the connection is shared and the last request's values would stay otherwise
+    await this.setOptions({
+      Hash: settings.hash,
+      Threads: settings.threads,
+      'Skill Level': settings.skillLevel ?? MAX_SKILL_LEVEL,
+      UCI_Chess960: !!position.chess960,
+      MultiPV: limits.multipv ?? 1,
+    });
+
+    const moves = position.moves.length > 0 ? ` moves ${position.moves.join(' ')}` : '';
+    this.socket.send(`position fen ${position.fen}${moves}`);
+    await this.command('isready', line => line === 'readyok', HANDSHAKE_TIMEOUT);
+    if (signal?.aborted) throw abortError();
+
+    const limit = limits.movetime !== undefined ? `movetime ${Math.round(limits.movetime)}` :
+      limits.depth !== undefined ? `depth ${limits.depth}` :
+        (['wtime', 'btime', 'winc', 'binc'] as (keyof UciLimits)[])
+          .filter(key => limits[key] !== undefined)
+          .map(key => `${key} ${Math.max(0, Math.round(limits[key] as number))}`)
+          .join(' ');
+
+    // one entry for each of the best moves, the first being the one that will be played
+    const lines: UciInfo[] = [];
+    // the engine still replies with a bestmove when it is stopped, which keeps the queue in step
+    const stop = () => this.socket.send('stop');
+    signal?.addEventListener('abort', stop, { once: true });
+    const bestmove = await this.command(
+      `go ${limit}`.trim(),
+      line => line.startsWith('bestmove'),
+      (limits.movetime ?? 0) + MOVE_TIMEOUT,
+      line => {
+        // the latest line with a principal variation describes its move
+        if (line.startsWith('info') && line.indexOf(' pv ') >= 0) {
+          const info = parseInfo(line);
+          const index = (info.multipv ?? 1) - 1;
+          lines[index] = { ...lines[index], ...info };
+          if (index === 0) onInfo?.(lines[0]);
+        }
+      },
+    ).finally(() => signal?.removeEventListener('abort', stop));
+    if (signal?.aborted) throw abortError();
+
+    const [, move, , ponder] = bestmove.split(/\s+/);
+    return { move, ponder, info: lines[0] ?? {}, lines: lines.filter(line => line !== undefined) };
+  }
+
+  /* searches are queued, as the engine can only think about one position at a time */
+  go(
+    settings: UciSettings, position: UciPosition, limits: UciLimits, signal?: AbortSignal, onInfo?: (info: UciInfo) => void,
+  ): Promise<{ move: string, ponder?: string, info: UciInfo, lines: UciInfo[] }> {
+    const result = this.queue.then(() => this.search(settings, position, limits, signal, onInfo));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// the connection is kept open between moves, and opened again if the bridge goes away
+let connection: UciConnection | undefined;
+
+const getConnection = (url: string): UciConnection => {
+  if (!connection || connection.closed || connection.url !== url) {
+    connection?.close();
+    connection = new UciConnection(url);
+  }
+  return connection;
+};
+
+/* onInfo is told about the best line each time the engine reports on it */
+export const getUciMove = async (
+  settings: UciSettings, position: UciPosition, limits: UciLimits, signal?: AbortSignal, onInfo?: (info: UciInfo) => void,
+): Promise<AIMoveResponse> => {
+  const { move, ponder, info } = await getConnection(settings.url).go(settings, position, limits, signal, onInfo);
+
+  // engines reply with "bestmove (none)" when there is nothing to play
+  if (!move || move === '(none)') {
+    return { move: null, from_square: null, to_square: null, promotion: null, error: 'the engine has no move to play' };
+  }
+
+  return {
+    move,
+    from_square: move.slice(0, 2),
+    to_square: move.slice(2, 4),
+    promotion: move[4] ?? null,
+    error: null,
+    info,
+    time_used: info.time,
+    ponder,
+  };
+};
+
+/* the best lines in a position, as many as limits.multipv asks for, each scored for the side to move */
+export const getUciLines = async (settings: UciSettings, position: UciPosition, limits: UciLimits, signal?: AbortSignal): Promise<UciInfo[]> => {
+  const { lines } = await getConnection(settings.url).go(settings, position, limits, signal);
+  return lines;
+};
@@ -1,13 +1,23 @@
 import React, { useContext, useEffect, useState } from 'react';
 import styled from 'styled-components';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Chessboard } from './game/Chessboard';
 import { Controls } from './game/Controls';
 import { Players } from './game/Players';
 import { Moves } from './game/Moves';
+import { ActionLog } from './game/ActionLog';
+import { EvalBar } from './game/EvalBar';
+import { Analysis } from './game/Analysis';
+import { EngineLines } from './game/EngineLines';
+import { BotThinking } from './game/BotThinking';
 import { Fullscreen } from '../util/Fullscreen';
-import { useChessContext } from '../providers/ChessProvider';
+import { BotConfig, GameMode, useChessContext } from '../providers/ChessProvider';
 import { SettingsContext } from '@/providers/SettingsProvider';
+import { DEFAULT_POSITIONS } from '@/game/state';
+import { Variant, generate960 } from '@/game/chess960';
+import { Color } from 'chess.js';
+import { decodePgn } from '@/util/links';
+import { deleteGame, findUnfinishedGame } from '@/api/gameStorage';
 
 const ChessContainer = styled.div<{ fullscreen: boolean }>`
   ${props => props.fullscreen && `display: flex; 
@@ -24,7 +34,7 @@ const GameContainer = styled.div<{ fullscreen: boolean }>`
   display: grid;
   background: ${props => props.theme.colors.grid};
   grid-template-columns: auto auto 250px;
-  grid-template-rows: 60px 120px auto;
+  grid-template-rows: minmax(60px, auto) 120px auto;
   grid-template-areas:
     "chess chess controls"
     "chess chess players"
@@ -32,7 +42,7 @@ const GameContainer = styled.div<{ fullscreen: boolean }>`
 
   @media (max-width: 800px) {
     grid-template-columns: 250px auto;
-    grid-template-rows: auto 60px 120px;
+    grid-template-rows: auto minmax(60px, auto) 120px;
     grid-template-areas:
       "chess chess"
       "controls moves"
@@ -40,7 +50,7 @@ const GameContainer = styled.div<{ fullscreen: boolean }>`
   }
   @media (max-width: 600px) {
     grid-template-columns: auto;
-    grid-template-rows: auto 60px 120px auto;
+    grid-template-rows: auto minmax(60px, auto) 120px auto;
     grid-template-areas:
       "chess"
       "controls"
@@ -49,32 +59,114 @@ const GameContainer = styled.div<{ fullscreen: boolean }>`
   }
 `;
 
+// games between bots are slowed down so that they can be watched
+const DEFAULT_MOVE_DELAY = 1000;
+
 const BoardContainer = styled.div`
   grid-area: chess;
+  display: flex;
+`;
+
+const BoardSquare = styled.div`
+  flex: 1;
   aspect-ratio: 1;
 `;
 
 interface ChessProps {
-  type: 'local' | 'bot'
+  type: GameMode
 }
 
+/* which side the player takes against the bot */
+export type ColorChoice = Color | 'random';
+
 export const Chess: React.FC<ChessProps> = ({ type }) => {
   const [fullscreen, setIsFullscreen] = useState(false);
-  const { hasLoaded } = useContext(SettingsContext);
-  const { StartNewGame } = useChessContext();
+  const { hasLoaded, showEvaluation, hideEvaluationAgainstBot } = useContext(SettingsContext);
+  const { state: { players, variant }, view, orientation, StartNewGame, ResumeGame, SetLineCount } = useChessContext();
+  // the evaluation would help the player against the bot, but not when watching bots play each other
+  const againstBot = (players.w.type === 'bot') !== (players.b.type === 'bot');
+  const evaluationShown = showEvaluation && !(hideEvaluationAgainstBot && againstBot);
   const navigate = useNavigate();
+  const location = useLocation();
+  const params = useParams();
+  const [searchParams] = useSearchParams();
+
+  // the engine's lines are hidden along with the evaluation, e.g. when the settings change during a game
+  useEffect(() => {
+    if (!evaluationShown) SetLineCount(0);
+  }, [evaluationShown]);
 
   useEffect(() => {
     if (!hasLoaded) {
       return;
     }
 
-    if (type === 'bot') {
-      StartNewGame({ player_white: 'local', player_black: 'bot', positions: 'default' });
-    } else if (type === 'local') {
-      StartNewGame({ player_white: 'local', player_black: 'local', positions: 'default' });
+    // games started from the home page pass their options as state, shared links use the url
+    const variant: Variant = location.state?.variant ?? (searchParams.get('variant') === 'chess960' ? 'chess960' : 'standard');
+    let positions: string = location.state?.positions ?? searchParams.get('fen') ?? DEFAULT_POSITIONS;
+    let pgn: string | undefined = location.state?.pgn;
+    const botLevel: number | undefined = location.state?.botLevel;
+    const bots: Partial<Record<Color, BotConfig>> | undefined = location.state?.bots;
+    const colorChoice: ColorChoice = location.state?.color ?? searchParams.get('color') ?? 'w';
+    const color: Color = colorChoice === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : colorChoice === 'b' ? 'b' : 'w';
+
+    const startGame = () => {
+      try {
+        if (params.pgn) {
+          pgn = decodePgn(params.pgn);
+        }
+
+        if (variant === 'chess960' && positions === DEFAULT_POSITIONS && !pgn) {
+          positions = generate960(location.state?.position960).fen;
+        }
+
+        if (type === 'bot') {
+          StartNewGame({
+            player_white: color === 'w' ? 'local' : 'bot',
+            player_black: color === 'w' ? 'bot' : 'local',
+            positions, variant, pgn, bot_level: botLevel,
+          });
+        } else if (type === 'bots') {
+          StartNewGame({ player_white: 'bot', player_black: 'bot', positions, variant, pgn, bot_level: botLevel, bots, move_delay: DEFAULT_MOVE_DELAY });
+        } else if (type === 'local') {
+          StartNewGame({ player_white: 'local', player_black: 'local', positions, variant, pgn });
+        }
+      } catch (e) {
+        navigate('/', { state: { error: (e as Error).message } });
+      }
+    };
+
+    // shared links, imported games and games given options of their own always start the game they were given,
+    // leaving any unfinished game saved
+    const options = location.state ?? {};
+    const chosen = (options.positions !== undefined && options.positions !== DEFAULT_POSITIONS) ||
+      [options.variant, options.position960, options.botLevel, options.bots, options.color].some(option => option !== undefined);
+    if (params.pgn || pgn || searchParams.has('fen') || chosen) {
+      startGame();
+      return;
     }
-  }, [hasLoaded]);
+
+    let cancelled = false;
+    findUnfinishedGame(type)
+      // storage may be unavailable, e.g. in private browsing
+      .catch(() => undefined)
+      .then(game => {
+        if (cancelled) return;
+
+        if (game && confirm(`would you like to resume your unfinished game from ${new Date(game.savedAt).toLocaleString()}?`)) {
+          ResumeGame(game);
+          return;
+        }
+        if (game) {
+          deleteGame(game.id).catch(error => console.error('Failed to delete game:', error));
+        }
+        startGame();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasLoaded, location.key]);
 
   const toggleFullscreen = () => {
     setIsFullscreen(b => !b);
@@ -90,7 +182,17 @@ export const Chess: React.FC<ChessProps> = ({ type }) => {
       <ChessContainer fullscreen={fullscreen}>
         <GameContainer fullscreen={fullscreen}>
           <BoardContainer>
-            <Chessboard />
+            {
+              evaluationShown && <EvalBar
+                fen={view.complete ? undefined : view.fen}
+                chess960={variant === 'chess960'}
+                orientation={orientation}
+                result={view.complete ? view.result : undefined}
+              />
+            }
+            <BoardSquare>
+              <Chessboard />
+            </BoardSquare>
           </BoardContainer>
           <Controls
             toggleFullscreen={() => toggleFullscreen()}
@@ -99,6 +201,10 @@ export const Chess: React.FC<ChessProps> = ({ type }) => {
           <Players />
           <Moves />
         </GameContainer>
+        {!fullscreen && <BotThinking showLine={evaluationShown} />}
+        {!fullscreen && <Analysis />}
+        {!fullscreen && evaluationShown && <EngineLines />}
+        {import.meta.env.DEV && !fullscreen && <ActionLog />}
       </ChessContainer>
     </Fullscreen>
   );
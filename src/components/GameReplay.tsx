@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Chessboard, formatHints } from './game/Chessboard';
+import { Players } from './game/Players';
+import { Moves } from './game/Moves';
+import { ViewControls } from './game/Controls';
+import { Analysis } from './game/Analysis';
+import { EngineLines } from './game/EngineLines';
+import { useChessContext } from '../providers/ChessProvider';
+import { SavedGame, loadGame } from '@/api/gameStorage';
+import { truncateChessState } from '@/game/state';
+import { exportPgn } from '@/game/pgn';
+import { downloadPgn } from '@/util/download';
+
+const ReplayContainer = styled.div`
+  width: 100%;
+  display: grid;
+  background: ${props => props.theme.colors.grid};
+  grid-template-columns: auto auto 250px;
+  grid-template-rows: minmax(60px, auto) 120px auto;
+  grid-template-areas:
+    "chess chess controls"
+    "chess chess players"
+    "chess chess moves";
+
+  @media (max-width: 800px) {
+    grid-template-columns: 250px auto;
+    grid-template-rows: auto minmax(60px, auto) 120px;
+    grid-template-areas:
+      "chess chess"
+      "controls moves"
+      "players moves"
+  }
+  @media (max-width: 600px) {
+    grid-template-columns: auto;
+    grid-template-rows: auto minmax(60px, auto) 120px auto;
+    grid-template-areas:
+      "chess"
+      "controls"
+      "players"
+      "moves"
+  }
+`;
+
+const BoardContainer = styled.div`
+  grid-area: chess;
+  aspect-ratio: 1;
+`;
+
+const ReplayPanel = styled.div`
+  grid-area: controls;
+  display: flex;
+  flex-direction: column;
+  gap: 5px;
+  padding: 5px;
+  background: ${props => props.theme.menus.controls.background};
+`;
+
+const ReplayNavigation = styled.div`
+  display: flex;
+  justify-content: space-evenly;
+  padding: 5px 0;
+`;
+
+const ReplayButton = styled.button`
+  background: ${props => props.theme.colors.primary};
+  padding: 8px;
+  border-radius: 10px;
+  border: 2px solid #000;
+  font-family: inherit;
+  font-size: 1em;
+  cursor: pointer;
+`;
+
+const ReplayText = styled.p`
+  text-align: center;
+  color: ${props => props.theme.colors.text};
+`;
+
+/* a finished game from the archive, which can be looked through but not played */
+export const GameReplay: React.FC = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { state, viewNode, ReplayGame } = useChessContext();
+  const [game, setGame] = useState<SavedGame | null | undefined>(undefined);
+
+  useEffect(() => {
+    loadGame(id ?? '')
+      .then(saved => {
+        setGame(saved ?? null);
+        if (saved) {
+          ReplayGame(saved);
+        }
+      })
+      .catch(() => setGame(null));
+  }, [id]);
+
+  if (game === undefined) {
+    return <ReplayText>loading game...</ReplayText>;
+  }
+  if (game === null) {
+    return <ReplayText>this game could not be found, it may have been deleted.</ReplayText>;
+  }
+
+  // a new game with the moves so far, which is played on from the position being viewed
+  const continueGame = () => {
+    const { player_white, player_black, bot_level, bots } = game.config;
+    const pgn = exportPgn(truncateChessState(game.state, viewNode ?? state.tree.current), new Date(game.startedAt));
+    // the same sides play on, including the colour the player had against the bot
+    const route = player_white === 'bot' && player_black === 'bot' ? '/game/bots' :
+      player_white === 'bot' || player_black === 'bot' ? '/game/bot' : '/game';
+    navigate(route, { state: { pgn, botLevel: bot_level, bots, color: player_white === 'bot' ? 'b' : 'w' } });
+  };
+
+  return (
+    <>
+      <ReplayContainer>
+        <BoardContainer>
+          <Chessboard />
+        </BoardContainer>
+        <ReplayPanel>
+          <ReplayNavigation>
+            <ViewControls />
+          </ReplayNavigation>
+          <ReplayButton onClick={() => downloadPgn(exportPgn(game.state, new Date(game.startedAt)), new Date(game.startedAt))}>
+            export PGN
+          </ReplayButton>
+          <ReplayButton onClick={() => continueGame()}>continue from this move</ReplayButton>
+          <ReplayButton onClick={() => navigate('/games')}>back to games</ReplayButton>
+          {formatHints(game.state) && <ReplayText>{formatHints(game.state)}</ReplayText>}
+        </ReplayPanel>
+        <Players />
+        <Moves />
+      </ReplayContainer>
+      <Analysis />
+      <EngineLines />
+    </>
+  );
+};
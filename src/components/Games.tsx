@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { useNavigate } from 'react-router-dom';
+import { DEFAULT_POSITION } from 'chess.js';
+import { faTrash } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { SavedGame, deleteGame, loadGames } from '@/api/gameStorage';
+import { describeComplete } from '@/game/state';
+import { findOpening } from '@/game/openings';
+import { formatHints, formatResult } from './game/Chessboard';
+
+const GamesContainer = styled.div`
+  color: ${props => props.theme.colors.text};
+`;
+
+const GamesHeader = styled.h1`
+  text-align: center;
+`;
+
+const GamesFilters = styled.div`
+  display: flex;
+  flex-direction: row;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 10px;
+  margin-bottom: 10px;
+`;
+
+const GamesInput = styled.input`
+  font-size: 1em;
+  padding: 8px;
+  border-radius: 10px;
+  flex-grow: 1;
+`;
+
+const GamesSelect = styled.select`
+  font-size: 1em;
+  padding: 8px;
+  border-radius: 10px;
+  font-family: inherit;
+`;
+
+const GamesTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  background: ${props => props.theme.menus.moves.background};
+`;
+
+const GamesRow = styled.tr`
+  cursor: pointer;
+
+  &:hover {
+    background: ${props => props.theme.colors.grid};
+  }
+`;
+
+const GamesCell = styled.td`
+  padding: 5px 10px;
+`;
+
+const GamesHeading = styled.th`
+  padding: 5px 10px;
+  text-align: left;
+`;
+
+const GamesDelete = styled(FontAwesomeIcon)`
+  padding: 5px;
+  opacity: 0.6;
+
+  &:hover {
+    opacity: 1;
+  }
+`;
+
+const GamesError = styled.p`
+  text-align: center;
+  color: red;
+`;
+
+type Sort = 'newest' | 'oldest' | 'most moves' | 'fewest moves' | 'longest' | 'shortest';
+const SORTS: Sort[] = ['newest', 'oldest', 'most moves', 'fewest moves', 'longest', 'shortest'];
+
+interface ArchivedGame {
+  game: SavedGame;
+  againstBot: boolean;
+  reason: string;
+  opening: string;
+  moves: number;
+  duration: number;
+  hints: number;
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const botDescription = ({ state: { players } }: SavedGame): string => {
+  if (players.w.type === 'bot' && players.b.type === 'bot') {
+    return `bots, level ${players.w.level ?? '?'} vs ${players.b.level ?? '?'}`;
+  }
+  const level = players.w.level ?? players.b.level;
+  return level !== undefined ? `bot level ${level}` : 'bot';
+};
+
+const archive = (game: SavedGame): ArchivedGame => {
+  const { state, config } = game;
+  const moves = state.moves ?? [];
+  // opening names only make sense from the standard starting position
+  const opening = state.startFen === DEFAULT_POSITION ? findOpening(moves) : undefined;
+
+  return {
+    game,
+    againstBot: config.player_white === 'bot' || config.player_black === 'bot',
+    reason: state.complete ? describeComplete(state.complete, state.result, state.players, state.turn) : '',
+    opening: opening ? `${opening.eco} ${opening.name}` : state.variant === 'chess960' ? 'chess960' : '',
+    moves: Math.ceil(moves.length / 2),
+    duration: game.savedAt - game.startedAt,
+    hints: (state.hints?.w ?? 0) + (state.hints?.b ?? 0),
+  };
+};
+
+const compare = (sort: Sort) => (a: ArchivedGame, b: ArchivedGame): number => {
+  switch (sort) {
+    case 'newest': return b.game.startedAt - a.game.startedAt;
+    case 'oldest': return a.game.startedAt - b.game.startedAt;
+    case 'most moves': return b.moves - a.moves;
+    case 'fewest moves': return a.moves - b.moves;
+    case 'longest': return b.duration - a.duration;
+    case 'shortest': return a.duration - b.duration;
+  }
+};
+
+export const Games: React.FC = () => {
+  const navigate = useNavigate();
+  const [games, setGames] = useState<ArchivedGame[]>([]);
+  const [error, setError] = useState('');
+  const [search, setSearch] = useState('');
+  const [opponent, setOpponent] = useState<'all' | 'local' | 'bot'>('all');
+  const [result, setResult] = useState('all');
+  const [sort, setSort] = useState<Sort>('newest');
+
+  useEffect(() => {
+    loadGames()
+      .then(saved => setGames(saved.filter(game => game.state.complete).map(archive)))
+      .catch(() => setError('unable to load saved games'));
+  }, []);
+
+  const removeGame = (id: string) => {
+    if (!confirm('would you like to delete this game?')) return;
+
+    deleteGame(id)
+      .then(() => setGames(old => old.filter(({ game }) => game.id !== id)))
+      .catch(() => setError('unable to delete game'));
+  };
+
+  const text = search.trim().toLowerCase();
+  const shown = games
+    .filter(({ againstBot }) => opponent === 'all' || againstBot === (opponent === 'bot'))
+    .filter(({ game }) => result === 'all' || game.state.result === result)
+    .filter(({ game, opening, reason }) => text === '' || [
+      game.state.players.w.name,
+      game.state.players.b.name,
+      opening,
+      reason,
+    ].some(value => value.toLowerCase().indexOf(text) >= 0))
+    .sort(compare(sort));
+
+  return (
+    <GamesContainer>
+      <GamesHeader>games</GamesHeader>
+      <GamesFilters>
+        <GamesInput
+          value={search}
+          placeholder='search players, openings and results'
+          onChange={e => setSearch(e.target.value)}
+        />
+        <GamesSelect value={opponent} onChange={e => setOpponent(e.target.value as 'all' | 'local' | 'bot')}>
+          <option value='all'>all games</option>
+          <option value='local'>local</option>
+          <option value='bot'>bot</option>
+        </GamesSelect>
+        <GamesSelect value={result} onChange={e => setResult(e.target.value)}>
+          <option value='all'>any result</option>
+          <option value='1-0'>white won</option>
+          <option value='0-1'>black won</option>
+          <option value='1/2-1/2'>draw</option>
+        </GamesSelect>
+        <GamesSelect value={sort} onChange={e => setSort(e.target.value as Sort)}>
+          {SORTS.map(option => <option key={option} value={option}>{option}</option>)}
+        </GamesSelect>
+      </GamesFilters>
+      {error !== '' && <GamesError>{error}</GamesError>}
+      <GamesTable>
+        <thead>
+          <tr>
+            <GamesHeading>date</GamesHeading>
+            <GamesHeading>players</GamesHeading>
+            <GamesHeading>result</GamesHeading>
+            <GamesHeading>opening</GamesHeading>
+            <GamesHeading>moves</GamesHeading>
+            <GamesHeading>duration</GamesHeading>
+            <GamesHeading>hints</GamesHeading>
+            <GamesHeading />
+          </tr>
+        </thead>
+        <tbody>
+          {
+            shown.map(({ game, againstBot, reason, opening, moves, duration, hints }) =>
+              <GamesRow key={game.id} onClick={() => navigate(`/games/${game.id}`)}>
+                <GamesCell>{new Date(game.startedAt).toLocaleString()}</GamesCell>
+                <GamesCell>
+                  {game.state.players.w.name} vs {game.state.players.b.name} ({againstBot ? botDescription(game) : 'local'})
+                </GamesCell>
+                <GamesCell title={reason}>
+                  {game.state.result && formatResult(game.state.result)} {reason}
+                </GamesCell>
+                <GamesCell>{opening}</GamesCell>
+                <GamesCell>{moves}</GamesCell>
+                <GamesCell>{formatDuration(duration)}</GamesCell>
+                <GamesCell title={formatHints(game.state)}>{hints}</GamesCell>
+                <GamesCell>
+                  <GamesDelete
+                    icon={faTrash}
+                    title='delete game'
+                    onClick={e => { e.stopPropagation(); removeGame(game.id); }}
+                  />
+                </GamesCell>
+              </GamesRow>
+            )
+          }
+        </tbody>
+      </GamesTable>
+      {shown.length === 0 && error === '' && <p>no finished games{games.length > 0 ? ' match' : ' yet'}.</p>}
+    </GamesContainer>
+  );
+};
@@ -1,7 +1,7 @@
 import React from 'react';
 import styled from 'styled-components';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faCog } from '@fortawesome/free-solid-svg-icons';
+import { faCog, faList } from '@fortawesome/free-solid-svg-icons';
 import { Link } from 'react-router-dom';
 
 const HeaderContainer = styled.div`
@@ -44,6 +44,11 @@ export const Header: React.FC<Props> = ({ onClickSettings }) => {
         <HeaderLink to="/">♘</HeaderLink> react-chess
       </HeaderText>
       <HeaderSpacer />
+      <HeaderButton style={{ marginRight: '20px' }}>
+        <HeaderLink to="/games" title="Games">
+          <FontAwesomeIcon icon={faList} style={{ margin: 'auto' }} />
+        </HeaderLink>
+      </HeaderButton>
       <HeaderButton onClick={onClickSettings}>
         <FontAwesomeIcon icon={faCog} style={{ margin: 'auto' }} />
       </HeaderButton>
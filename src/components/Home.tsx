@@ -1,6 +1,12 @@
-import React, { useRef, useState } from 'react';
+import React, { useState } from 'react';
 import styled from 'styled-components';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
+import { Variant } from '@/game/chess960';
+import { BOT_LEVELS, DEFAULT_BOT_LEVEL } from '@/game/bot';
+import { Color } from 'chess.js';
+import { BotConfig } from '@/providers/ChessProvider';
+import { AIProvider } from '@/api/chessApi';
+import { ColorChoice } from './Chess';
 
 const HomeContainer = styled.div`
 `;
@@ -19,6 +25,7 @@ const HomeButtonContainer = styled.div`
   display: flex;
   flex-direction: row;
   justify-content: center;
+  flex-wrap: wrap;
   gap: 20px;
   margin: 0 auto;
   align-items: center;
@@ -35,24 +42,148 @@ const HomeButton = styled(Link)`
 `;
 
 const HomeInput = styled.input`
-  font-size: 2em;
-  width: 140px;
+  font-size: 1em;
+  width: min(600px, 90%);
   text-align: center;
   padding: 10px;
   border-radius: 10px;
 `;
 
+const HomeTextArea = styled.textarea`
+  font-size: 1em;
+  width: min(600px, 90%);
+  padding: 10px;
+  border-radius: 10px;
+  font-family: inherit;
+  resize: vertical;
+`;
+
+const HomeSelect = styled.select`
+  font-size: 1em;
+  padding: 10px;
+  border-radius: 10px;
+  font-family: inherit;
+`;
+
+const HomeLabel = styled.span`
+  color: ${props => props.theme.colors.text};
+`;
+
+const HomeError = styled.p`
+  text-align: center;
+  color: red;
+`;
+
 export const Home: React.FC = () => {
+  const location = useLocation();
+  const [fen, setFen] = useState('');
+  const [variant, setVariant] = useState<Variant>('standard');
+  const [position960, setPosition960] = useState('');
+  const [pgn, setPgn] = useState('');
+  const [botLevel, setBotLevel] = useState(DEFAULT_BOT_LEVEL);
+  const [color, setColor] = useState<ColorChoice>('w');
+  // for watching two bots, a missing engine uses the one in the settings
+  const [bots, setBots] = useState<Record<Color, BotConfig>>({ w: { level: DEFAULT_BOT_LEVEL }, b: { level: DEFAULT_BOT_LEVEL } });
+
+  // only the options that were changed are passed on, so that a plain game can offer to resume an unfinished one
+  const gameState = {
+    positions: fen.trim() === '' ? undefined : fen.trim(),
+    variant: variant === 'standard' ? undefined : variant,
+    // an empty position number picks a random chess960 start
+    position960: variant !== 'chess960' || position960.trim() === '' ? undefined : parseInt(position960),
+    pgn: pgn.trim() === '' ? undefined : pgn,
+    botLevel: botLevel === DEFAULT_BOT_LEVEL ? undefined : botLevel,
+    color: color === 'w' ? undefined : color,
+    bots: Object.values(bots).some(bot => bot.level !== DEFAULT_BOT_LEVEL || bot.provider) ? bots : undefined,
+  };
+
+  const updateBot = (side: Color, bot: BotConfig) => {
+    setBots(bots => ({ ...bots, [side]: { ...bots[side], ...bot } }));
+  };
+
+  const loadPgnFile = (file?: File) => {
+    file?.text().then(text => setPgn(text));
+  };
+
   return (
     <HomeContainer>
       <HomeHeader>create a game</HomeHeader>
       <HomeButtonContainer>
-        <HomeButton to="/game">Local</HomeButton>
-        <HomeButton to="/game/bot">Bot</HomeButton>
+        <HomeButton to="/game" state={gameState}>Local</HomeButton>
+        <HomeButton to="/game/bot" state={gameState}>Bot</HomeButton>
+        <HomeButton to="/setup">Setup</HomeButton>
+      </HomeButtonContainer>
+      <HomeButtonContainer>
+        <HomeSelect value={botLevel} title='bot level' onChange={e => setBotLevel(parseInt(e.target.value))}>
+          {BOT_LEVELS.map(({ level }) => <option key={level} value={level}>bot level {level}</option>)}
+        </HomeSelect>
+        <HomeSelect value={color} title='your colour against the bot' onChange={e => setColor(e.target.value as ColorChoice)}>
+          <option value='w'>play as white</option>
+          <option value='b'>play as black</option>
+          <option value='random'>random colour</option>
+        </HomeSelect>
+      </HomeButtonContainer>
+      <HomeButtonContainer>
+        <HomeButton to="/game/bots" state={gameState}>Bot vs Bot</HomeButton>
+        {
+          (['w', 'b'] as Color[]).map(side =>
+            <React.Fragment key={side}>
+              <HomeLabel>{side === 'w' ? 'white' : 'black'}</HomeLabel>
+              <HomeSelect value={bots[side].level} title={`${side === 'w' ? 'white' : 'black'} bot level`} onChange={e => updateBot(side, { level: parseInt(e.target.value) })}>
+                {BOT_LEVELS.map(({ level }) => <option key={level} value={level}>level {level}</option>)}
+              </HomeSelect>
+              <HomeSelect
+                value={bots[side].provider ?? ''}
+                title={`${side === 'w' ? 'white' : 'black'} bot engine`}
+                onChange={e => updateBot(side, { provider: e.target.value === '' ? undefined : e.target.value as AIProvider })}
+              >
+                <option value=''>engine from settings</option>
+                <option value='server'>server</option>
+                <option value='builtin'>built-in</option>
+                <option value='uci'>UCI engine</option>
+              </HomeSelect>
+            </React.Fragment>
+          )
+        }
       </HomeButtonContainer>
       <HomeParagraph>
-        play chess against a local player or a bot.
+        play chess against a local player or a bot, or set up a custom position.
       </HomeParagraph>
+      <HomeButtonContainer>
+        <HomeSelect value={variant} onChange={e => setVariant(e.target.value as Variant)}>
+          <option value='standard'>standard</option>
+          <option value='chess960'>chess960</option>
+        </HomeSelect>
+        {
+          variant === 'chess960' && <HomeInput
+            type='number'
+            min={0}
+            max={959}
+            value={position960}
+            placeholder='position (0-959), empty for random'
+            onChange={e => setPosition960(e.target.value)}
+          />
+        }
+      </HomeButtonContainer>
+      <HomeButtonContainer>
+        <HomeInput
+          value={fen}
+          placeholder='starting position (FEN), leave empty for default'
+          onChange={e => setFen(e.target.value)}
+        />
+      </HomeButtonContainer>
+      <HomeButtonContainer>
+        <HomeTextArea
+          rows={4}
+          value={pgn}
+          placeholder='game to continue (PGN), leave empty for a new game'
+          onChange={e => setPgn(e.target.value)}
+        />
+      </HomeButtonContainer>
+      <HomeButtonContainer>
+        <input type='file' accept='.pgn,text/plain' onChange={e => loadPgnFile(e.target.files?.[0])} />
+      </HomeButtonContainer>
+      {location.state?.error && <HomeError>{location.state.error}</HomeError>}
     </HomeContainer >
   );
 };
@@ -2,7 +2,9 @@ import { faWindowClose } from '@fortawesome/free-solid-svg-icons';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import React, { useContext, useEffect, useRef, useState } from 'react';
 import styled from 'styled-components';
-import { SettingsContext } from '../providers/SettingsProvider';
+import { SettingsContext, getTimeControl } from '../providers/SettingsProvider';
+import { DelayMode, TIME_CONTROL_PRESETS, formatTimeControl } from '@/game/clock';
+import { AIProvider } from '@/api/chessApi';
 
 const SettingsContainer = styled.div`
   position: absolute;
@@ -78,6 +80,16 @@ const SettingsNumberInput = styled.input`
   }
 `;
 
+const SettingsSelect = styled.select`
+  padding: 8px 12px;
+  border: 2px solid ${props => props.theme.colors.grid};
+  border-radius: 6px;
+  font-size: 1em;
+  font-family: inherit;
+  background: ${props => props.theme.colors.background};
+  color: ${props => props.theme.colors.text};
+`;
+
 const SettingsError = styled.p`
   color: red;
 `;
@@ -101,6 +113,8 @@ export const Settings: React.FC<Props> = ({ onClickSettings }) => {
   const darkThemeCheckbox = useRef<HTMLInputElement>(null);
   const allowPauseCheckbox = useRef<HTMLInputElement>(null);
   const useChessNotationCheckbox = useRef<HTMLInputElement>(null);
+  const showEvaluationCheckbox = useRef<HTMLInputElement>(null);
+  const hideEvaluationAgainstBotCheckbox = useRef<HTMLInputElement>(null);
   const defaultUsernameField = useRef<HTMLInputElement>(null);
 
   const [username, setUsername] = useState('');
@@ -118,6 +132,8 @@ export const Settings: React.FC<Props> = ({ onClickSettings }) => {
       allowPauseCheckbox.current && (nextState.allowPause = allowPauseCheckbox.current.checked);
       allowPauseCheckbox.current && (nextState.allowPause = allowPauseCheckbox.current.checked);
       useChessNotationCheckbox.current && (nextState.useChessNotation = useChessNotationCheckbox.current.checked);
+      showEvaluationCheckbox.current && (nextState.showEvaluation = showEvaluationCheckbox.current.checked);
+      hideEvaluationAgainstBotCheckbox.current && (nextState.hideEvaluationAgainstBot = hideEvaluationAgainstBotCheckbox.current.checked);
 
       return nextState;
     });
@@ -139,8 +155,8 @@ export const Settings: React.FC<Props> = ({ onClickSettings }) => {
   };
 
   const updateGameLength = (length: number) => {
-    if (isNaN(length) || length < 5 || length > 30) {
-      setLengthError('game length must be a number between 5 and 30');
+    if (isNaN(length) || length < 1 || length > 180) {
+      setLengthError('game length must be a number between 1 and 180');
       return;
     } else {
       setLengthError('');
@@ -148,13 +164,56 @@ export const Settings: React.FC<Props> = ({ onClickSettings }) => {
     setLength(length);
 
     settings.updateSettings(existing => {
-      if (length >= 5 && length <= 30)
+      if (length >= 1 && length <= 180)
         existing.gameLength = length;
 
       return { ...existing };
     });
   };
 
+  const updateIncrement = (seconds: number, key: 'timeIncrement' | 'timeDelay') => {
+    if (isNaN(seconds) || seconds < 0 || seconds > 60) {
+      setLengthError('increment and delay must be between 0 and 60 seconds');
+      return;
+    } else {
+      setLengthError('');
+    }
+
+    settings.updateSettings(existing => ({ ...existing, [key]: seconds }));
+  };
+
+  const updateDelayMode = (delayMode: DelayMode) => {
+    settings.updateSettings(existing => ({ ...existing, timeDelayMode: delayMode }));
+  };
+
+  const updateAIProvider = (aiProvider: AIProvider) => {
+    settings.updateSettings(existing => ({ ...existing, aiProvider }));
+  };
+
+  const updateBotOption = (key: 'uciHash' | 'uciThreads' | 'uciSkillLevel' | 'aiTimeout' | 'aiRetries' | 'hintLimit', value: number, min: number, max: number) => {
+    if (isNaN(value) || value < min || value > max) return;
+
+    settings.updateSettings(existing => ({ ...existing, [key]: value }));
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = TIME_CONTROL_PRESETS[name];
+    if (!preset) return;
+
+    setLengthError('');
+    settings.updateSettings(existing => ({
+      ...existing,
+      gameLength: preset.base / 60,
+      timeIncrement: preset.increment,
+      timeDelay: preset.delay,
+      timeDelayMode: preset.delayMode,
+    }));
+  };
+
+  const timeControl = formatTimeControl(getTimeControl(settings));
+  const currentPreset = Object.keys(TIME_CONTROL_PRESETS)
+    .find(name => formatTimeControl(TIME_CONTROL_PRESETS[name]) === timeControl) ?? 'custom';
+
   useEffect(() => {
     if (validateUsername(username)) {
       setUsernameError('');
@@ -219,18 +278,165 @@ export const Settings: React.FC<Props> = ({ onClickSettings }) => {
           onChange={() => updateSettings()}
         />
       </SettingsRow>
+      <SettingsRow>
+        <SettingsText>show evaluation bar</SettingsText>
+        <SettingsTextCheckbox
+          type='checkbox'
+          ref={showEvaluationCheckbox}
+          checked={settings.showEvaluation}
+          onChange={() => updateSettings()}
+        />
+      </SettingsRow>
+      <SettingsRow>
+        <SettingsText>hide evaluation when playing a bot</SettingsText>
+        <SettingsTextCheckbox
+          type='checkbox'
+          ref={hideEvaluationAgainstBotCheckbox}
+          checked={settings.hideEvaluationAgainstBot}
+          disabled={!settings.showEvaluation}
+          onChange={() => updateSettings()}
+        />
+      </SettingsRow>
+      <SettingsRow>
+        <SettingsText>time control ({timeControl})</SettingsText>
+        <SettingsSelect
+          value={currentPreset}
+          onChange={e => applyPreset(e.target.value)}
+        >
+          {
+            Object.entries(TIME_CONTROL_PRESETS).map(([name, preset]) =>
+              <option key={name} value={name}>{name} ({formatTimeControl(preset)})</option>
+            )
+          }
+          <option value='custom' disabled>custom</option>
+        </SettingsSelect>
+      </SettingsRow>
       <SettingsRow>
         <SettingsText>game length (minutes per player)</SettingsText>
         <SettingsTextInput
           type='number'
           value={length}
-          min={5}
-          max={30}
-          step={5}
-          onChange={e => updateGameLength(parseInt(e.target.value))}
+          min={1}
+          max={180}
+          step={1}
+          onChange={e => updateGameLength(parseFloat(e.target.value))}
+        />
+      </SettingsRow>
+      <SettingsRow>
+        <SettingsText>increment (seconds per move)</SettingsText>
+        <SettingsTextInput
+          type='number'
+          value={settings.timeIncrement}
+          min={0}
+          max={60}
+          onChange={e => updateIncrement(parseInt(e.target.value), 'timeIncrement')}
+        />
+      </SettingsRow>
+      <SettingsRow>
+        <SettingsText>delay</SettingsText>
+        <SettingsSelect
+          value={settings.timeDelayMode}
+          onChange={e => updateDelayMode(e.target.value as DelayMode)}
+        >
+          <option value='none'>none</option>
+          <option value='simple'>simple</option>
+          <option value='bronstein'>bronstein</option>
+        </SettingsSelect>
+        <SettingsTextInput
+          type='number'
+          value={settings.timeDelay}
+          min={0}
+          max={60}
+          disabled={settings.timeDelayMode === 'none'}
+          onChange={e => updateIncrement(parseInt(e.target.value), 'timeDelay')}
         />
       </SettingsRow>
       {lengthError !== '' && <SettingsError>{lengthError}</SettingsError>}
+      <SettingsRow>
+        <SettingsText>bot engine</SettingsText>
+        <SettingsSelect
+          value={settings.aiProvider}
+          onChange={e => updateAIProvider(e.target.value as AIProvider)}
+        >
+          <option value='fallback'>server, built-in when offline</option>
+          <option value='server'>server</option>
+          <option value='builtin'>built-in</option>
+          <option value='uci'>UCI engine (local bridge)</option>
+        </SettingsSelect>
+      </SettingsRow>
+      <SettingsRow>
+        <SettingsText>bot timeout (seconds)</SettingsText>
+        <SettingsTextInput
+          type='number'
+          value={settings.aiTimeout}
+          min={1}
+          max={300}
+          onChange={e => updateBotOption('aiTimeout', parseInt(e.target.value), 1, 300)}
+        />
+      </SettingsRow>
+      <SettingsRow>
+        <SettingsText>bot retries</SettingsText>
+        <SettingsTextInput
+          type='number'
+          value={settings.aiRetries}
+          min={0}
+          max={10}
+          onChange={e => updateBotOption('aiRetries', parseInt(e.target.value), 0, 10)}
+        />
+      </SettingsRow>
+      {
+        settings.aiProvider === 'uci' && <>
+          <SettingsRow>
+            <SettingsText>UCI bridge</SettingsText>
+            <SettingsTextInput
+              value={settings.uciUrl}
+              placeholder='ws://localhost:8081'
+              onChange={e => settings.updateSettings(existing => ({ ...existing, uciUrl: e.target.value }))}
+            />
+          </SettingsRow>
+          <SettingsRow>
+            <SettingsText>hash (MB)</SettingsText>
+            <SettingsTextInput
+              type='number'
+              value={settings.uciHash}
+              min={1}
+              max={4096}
+              onChange={e => updateBotOption('uciHash', parseInt(e.target.value), 1, 4096)}
+            />
+          </SettingsRow>
+          <SettingsRow>
+            <SettingsText>threads</SettingsText>
+            <SettingsTextInput
+              type='number'
+              value={settings.uciThreads}
+              min={1}
+              max={64}
+              onChange={e => updateBotOption('uciThreads', parseInt(e.target.value), 1, 64)}
+            />
+          </SettingsRow>
+          <SettingsRow>
+            <SettingsText>skill level</SettingsText>
+            <SettingsSelect
+              value={settings.uciSkillLevel}
+              onChange={e => updateBotOption('uciSkillLevel', parseInt(e.target.value), -1, 20)}
+            >
+              <option value={-1}>from bot level</option>
+              {Array.from({ length: 21 }, (_, level) => <option key={level} value={level}>{level}</option>)}
+            </SettingsSelect>
+          </SettingsRow>
+        </>
+      }
+      <SettingsRow>
+        <SettingsText>hints per game</SettingsText>
+        <SettingsSelect
+          value={settings.hintLimit}
+          onChange={e => updateBotOption('hintLimit', parseInt(e.target.value), -1, 100)}
+        >
+          <option value={0}>none</option>
+          {[1, 3, 5, 10].map(limit => <option key={limit} value={limit}>{limit}</option>)}
+          <option value={-1}>unlimited</option>
+        </SettingsSelect>
+      </SettingsRow>
       <SettingsRow>
         <SettingsText>default username</SettingsText>
         <SettingsNumberInput
@@ -0,0 +1,347 @@
+import React, { useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { useNavigate } from 'react-router-dom';
+import { Color, DEFAULT_POSITION, PieceSymbol, Square } from 'chess.js';
+import { BoardGrid, useBoardCoordinates } from './game/BoardGrid';
+import { ChessPiece } from './game/ChessPiece';
+import { SquareToXY, XYtoSquare } from '../providers/ChessProvider';
+import { loadPosition } from '@/game/state';
+
+const SetupContainer = styled.div`
+  display: flex;
+  flex-direction: row;
+  flex-wrap: wrap;
+  gap: 20px;
+  background: ${props => props.theme.colors.grid};
+`;
+
+const SetupBoardContainer = styled.div`
+  width: min(600px, 100%);
+`;
+
+const SetupBoard = styled.div`
+  width: 100%;
+  aspect-ratio: 1;
+`;
+
+const SparePiecesContainer = styled.div`
+  width: 100%;
+  aspect-ratio: 4 / 1;
+  background: ${props => props.theme.menus.players.background};
+`;
+
+/* square so that pieces are the same size as on the board, only the top two rows are used */
+const SparePiecesGrid = styled.div`
+  position: relative;
+  width: 100%;
+  aspect-ratio: 1;
+  pointer-events: none;
+
+  & > img {
+    pointer-events: auto;
+  }
+`;
+
+const SetupPanel = styled.div`
+  flex-grow: 1;
+  padding: 10px;
+  min-width: 250px;
+  background: ${props => props.theme.menus.players.background};
+`;
+
+const SetupRow = styled.div`
+  display: flex;
+  flex-direction: row;
+  justify-content: space-between;
+  align-items: baseline;
+  gap: 10px;
+`;
+
+const SetupText = styled.p`
+  margin: 5px 0;
+  color: ${props => props.theme.colors.text};
+`;
+
+const SetupCheckbox = styled.input`
+  width: 20px;
+  height: 20px;
+  cursor: pointer;
+  accent-color: ${props => props.theme.colors.primary};
+`;
+
+const SetupFenInput = styled.textarea`
+  width: 100%;
+  box-sizing: border-box;
+  padding: 8px;
+  border: 2px solid ${props => props.theme.colors.grid};
+  border-radius: 6px;
+  font-family: inherit;
+  resize: none;
+`;
+
+const SetupButton = styled.button`
+  background: ${props => props.theme.colors.primary};
+  padding: 8px;
+  margin: 5px 0;
+  border-radius: 10px;
+  border: 2px solid #000;
+  font-family: inherit;
+  font-size: 1em;
+  cursor: pointer;
+  flex-grow: 1;
+
+  &:disabled {
+    cursor: not-allowed;
+    opacity: 0.5;
+  }
+`;
+
+const SetupError = styled.p`
+  color: red;
+`;
+
+type SetupPieces = Partial<Record<Square, { type: PieceSymbol, color: Color }>>;
+
+interface SetupPosition {
+  pieces: SetupPieces;
+  turn: Color;
+  castling: string;
+  enPassant: string;
+}
+
+const SPARE_PIECES: PieceSymbol[] = ['k', 'q', 'r', 'b', 'n', 'p'];
+const CASTLING_FLAGS = ['K', 'Q', 'k', 'q'];
+
+const toFen = ({ pieces, turn, castling, enPassant }: SetupPosition): string => {
+  const rows: string[] = [];
+  for (let y = 0; y < 8; y++) {
+    let row = '';
+    let empty = 0;
+    for (let x = 0; x < 8; x++) {
+      const piece = pieces[XYtoSquare(x, y)];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        row += empty;
+        empty = 0;
+      }
+      row += piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+    }
+    rows.push(empty > 0 ? row + empty : row);
+  }
+
+  const flags = CASTLING_FLAGS.filter(flag => castling.indexOf(flag) >= 0).join('');
+  return `${rows.join('/')} ${turn} ${flags || '-'} ${enPassant} 0 1`;
+};
+
+/*
+ * parses a FEN loosely (missing kings etc. are allowed) so that
+ * half finished positions can still be edited, returns null if unreadable
+ */
+const fromFen = (fen: string): SetupPosition | null => {
+  const [placement, turn = 'w', castling = '-', enPassant = '-'] = fen.trim().split(/\s+/);
+  const rows = placement.split('/');
+  if (rows.length !== 8 || !/^[wb]$/.test(turn) || !/^(-|[KQkq]+)$/.test(castling) || !/^(-|[a-h][36])$/.test(enPassant)) {
+    return null;
+  }
+
+  const pieces: SetupPieces = {};
+  for (let y = 0; y < 8; y++) {
+    let x = 0;
+    for (const char of rows[y]) {
+      if (/[1-8]/.test(char)) {
+        x += parseInt(char);
+      } else if (/[prnbqk]/i.test(char) && x < 8) {
+        pieces[XYtoSquare(x, y)] = {
+          type: char.toLowerCase() as PieceSymbol,
+          color: char === char.toUpperCase() ? 'w' : 'b',
+        };
+        x++;
+      } else {
+        return null;
+      }
+    }
+    if (x !== 8) {
+      return null;
+    }
+  }
+
+  return { pieces, turn: turn as Color, castling: castling === '-' ? '' : castling, enPassant };
+};
+
+const EmptyPosition: SetupPosition = { pieces: {}, turn: 'w', castling: '', enPassant: '-' };
+
+const inBounds = (x: number, y: number) => x >= 0 && x < 8 && y >= 0 && y < 8;
+
+export const Setup: React.FC = () => {
+  const navigate = useNavigate();
+  const boardRef = useRef<HTMLDivElement>(null);
+  const { pixelsToGrid, gridToPixels } = useBoardCoordinates(boardRef);
+
+  const [position, setPosition] = useState<SetupPosition>(() => fromFen(DEFAULT_POSITION) ?? EmptyPosition);
+  const [fenText, setFenText] = useState(DEFAULT_POSITION);
+  const [fenError, setFenError] = useState('');
+
+  const fen = toFen(position);
+
+  const positionError = useMemo(() => {
+    try {
+      loadPosition(fen);
+      return '';
+    } catch (e) {
+      return (e as Error).message;
+    }
+  }, [fen]);
+
+  const updatePosition = (update: (position: SetupPosition) => SetupPosition) => {
+    const next = update(position);
+    setPosition(next);
+    setFenText(toFen(next));
+    setFenError('');
+  };
+
+  const updateFenText = (text: string) => {
+    setFenText(text);
+
+    const parsed = fromFen(text);
+    if (parsed === null) {
+      setFenError('unable to read FEN');
+      return;
+    }
+    setFenError('');
+    setPosition(parsed);
+  };
+
+  const placePiece = (square: Square | null, x: number, y: number, piece: { type: PieceSymbol, color: Color }) => {
+    updatePosition(old => {
+      const pieces = { ...old.pieces };
+      if (square !== null) {
+        delete pieces[square];
+      }
+      // pieces dropped off the board are removed
+      if (inBounds(x, y)) {
+        pieces[XYtoSquare(x, y)] = piece;
+      }
+      return { ...old, pieces };
+    });
+  };
+
+  const toggleCastling = (flag: string) => {
+    updatePosition(old => ({
+      ...old,
+      castling: old.castling.indexOf(flag) >= 0 ? old.castling.replace(flag, '') : old.castling + flag,
+    }));
+  };
+
+  const enPassantSquares = [...'abcdefgh'].map(file => `${file}${position.turn === 'w' ? 6 : 3}`);
+
+  const startGame = (route: string) => {
+    navigate(route, { state: { positions: fen } });
+  };
+
+  return (
+    <SetupContainer>
+      <SetupBoardContainer>
+        <SparePiecesContainer>
+          <SparePiecesGrid>
+            {
+              (['b', 'w'] as Color[]).map((color, row) => SPARE_PIECES.map((type, i) =>
+                <ChessPiece
+                  key={`spare_${color}${type}`}
+                  type={type}
+                  grid_x={i + 1}
+                  grid_y={row}
+                  is_white={color === 'w'}
+                  on_place={(x, y) => placePiece(null, x, y, { type, color })}
+                  pixels_to_grid={pixelsToGrid}
+                  grid_to_pixels={gridToPixels}
+                  on_select_change={() => undefined}
+                  can_click={true}
+                />
+              ))
+            }
+          </SparePiecesGrid>
+        </SparePiecesContainer>
+        <SetupBoard>
+          <BoardGrid ref={boardRef}>
+            {
+              (Object.entries(position.pieces) as [Square, { type: PieceSymbol, color: Color }][]).map(([square, piece]) => {
+                const [x, y] = SquareToXY(square);
+                return (
+                  <ChessPiece
+                    key={`setup_${square}_${piece.color}${piece.type}`}
+                    type={piece.type}
+                    grid_x={x}
+                    grid_y={y}
+                    is_white={piece.color === 'w'}
+                    on_place={(to_x, to_y) => placePiece(square, to_x, to_y, piece)}
+                    pixels_to_grid={pixelsToGrid}
+                    grid_to_pixels={gridToPixels}
+                    on_select_change={() => undefined}
+                    can_click={true}
+                  />
+                );
+              })
+            }
+          </BoardGrid>
+        </SetupBoard>
+      </SetupBoardContainer>
+      <SetupPanel>
+        <SetupText>drag pieces onto the board, drag them off the board to remove them.</SetupText>
+        <SetupRow>
+          <SetupButton onClick={() => updatePosition(() => EmptyPosition)}>clear</SetupButton>
+          <SetupButton onClick={() => updatePosition(() => fromFen(DEFAULT_POSITION) ?? EmptyPosition)}>reset</SetupButton>
+        </SetupRow>
+        <SetupRow>
+          <SetupText>side to move</SetupText>
+          <select
+            value={position.turn}
+            onChange={e => updatePosition(old => ({ ...old, turn: e.target.value as Color, enPassant: '-' }))}
+          >
+            <option value='w'>white</option>
+            <option value='b'>black</option>
+          </select>
+        </SetupRow>
+        <SetupRow>
+          <SetupText>castling</SetupText>
+          {
+            CASTLING_FLAGS.map(flag =>
+              <label key={flag}>
+                <SetupText as='span'>{flag}</SetupText>
+                <SetupCheckbox
+                  type='checkbox'
+                  checked={position.castling.indexOf(flag) >= 0}
+                  onChange={() => toggleCastling(flag)}
+                />
+              </label>
+            )
+          }
+        </SetupRow>
+        <SetupRow>
+          <SetupText>en passant</SetupText>
+          <select
+            value={position.enPassant}
+            onChange={e => updatePosition(old => ({ ...old, enPassant: e.target.value }))}
+          >
+            <option value='-'>none</option>
+            {enPassantSquares.map(square => <option key={square} value={square}>{square}</option>)}
+          </select>
+        </SetupRow>
+        <SetupText>FEN</SetupText>
+        <SetupFenInput
+          rows={3}
+          value={fenText}
+          onChange={e => updateFenText(e.target.value)}
+        />
+        {fenError !== '' && <SetupError>{fenError}</SetupError>}
+        {positionError !== '' && <SetupError>{positionError}</SetupError>}
+        <SetupRow>
+          <SetupButton disabled={positionError !== ''} onClick={() => startGame('/game')}>play local</SetupButton>
+          <SetupButton disabled={positionError !== ''} onClick={() => startGame('/game/bot')}>play bot</SetupButton>
+        </SetupRow>
+      </SetupPanel>
+    </SetupContainer>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import styled from 'styled-components';
+import { faFastBackward, faStepBackward, faStepForward, faFastForward } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { useChessContext } from '../../providers/ChessProvider';
+import { ChessAction } from '@/game/state';
+
+const LogContainer = styled.div`
+  background: ${props => props.theme.menus.moves.background};
+  color: ${props => props.theme.colors.text};
+  font-family: monospace;
+  padding: 5px;
+`;
+
+const LogControls = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  padding: 5px;
+`;
+
+const LogButton = styled(FontAwesomeIcon)`
+  padding: 5px;
+  cursor: pointer;
+`;
+
+const LogList = styled.ol`
+  max-height: 200px;
+  overflow-y: auto;
+  margin: 0;
+`;
+
+const LogItem = styled.li<{ shown: boolean }>`
+  background: ${props => props.shown ? props.theme.colors.grid : 'none'};
+  cursor: pointer;
+`;
+
+/* the action without the parts that are the same for every action */
+const describeAction = (action: ChessAction): string => {
+  const { type, ...rest } = action;
+  const details = Object.entries(rest)
+    .filter(([key, value]) => key !== 'time' && value !== undefined)
+    .map(([key, value]) => `${key}=${value}`);
+  return [type, ...details].join(' ');
+};
+
+/*
+ * development only, lists the actions given to the game and steps through the
+ * state after each of them. the game carries on underneath and can't be played while stepping
+ */
+export const ActionLog: React.FC = () => {
+  const { actionLog, inspecting, Inspect } = useChessContext();
+  const shown = inspecting ?? actionLog.length;
+  const start = actionLog[0] && 'time' in actionLog[0] ? actionLog[0].time : 0;
+
+  return (
+    <LogContainer>
+      <LogControls>
+        <LogButton onClick={() => Inspect(0)} icon={faFastBackward} title="Start of the game" />
+        <LogButton onClick={() => Inspect(shown - 1)} icon={faStepBackward} title="Previous action" />
+        <LogButton onClick={() => Inspect(shown + 1)} icon={faStepForward} title="Next action" />
+        <LogButton onClick={() => Inspect(undefined)} icon={faFastForward} title="Back to live" />
+        <span>action {shown} of {actionLog.length}{inspecting === undefined ? ' (live)' : ''}</span>
+      </LogControls>
+      <LogList start={0}>
+        <LogItem shown={shown === 0} onClick={() => Inspect(0)}>start</LogItem>
+        {
+          actionLog.map((action, i) =>
+            <LogItem key={i} shown={shown === i + 1} onClick={() => Inspect(i + 1)}>
+              {'time' in action && `+${((action.time - start) / 1000).toFixed(1)}s `}
+              {describeAction(action)}
+            </LogItem>
+          )
+        }
+      </LogList>
+    </LogContainer>
+  );
+};
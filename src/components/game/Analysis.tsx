@@ -0,0 +1,176 @@
+import React from 'react';
+import styled from 'styled-components';
+import { faMagnifyingGlassChart, faXmark } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { useChessContext } from '../../providers/ChessProvider';
+import { GameAnalysis, MOVE_CLASSES, MoveClass, winChance } from '@/game/analysis';
+
+export const CLASS_SYMBOLS: Record<MoveClass, string> = {
+  best: '!',
+  good: '✓',
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+  missedMate: 'M?',
+};
+
+export const CLASS_COLORS: Record<MoveClass, string> = {
+  best: '#2e9e4f',
+  good: '#7a9e2e',
+  inaccuracy: '#d8b21e',
+  mistake: '#e07b1f',
+  blunder: '#d0342c',
+  missedMate: '#8e3cc8',
+};
+
+export const CLASS_NAMES: Record<MoveClass, string> = {
+  best: 'best',
+  good: 'good',
+  inaccuracy: 'inaccuracy',
+  mistake: 'mistake',
+  blunder: 'blunder',
+  missedMate: 'missed mate',
+};
+
+const AnalysisContainer = styled.div`
+  background: ${props => props.theme.menus.moves.background};
+  color: ${props => props.theme.colors.text};
+  padding: 5px 10px;
+`;
+
+const AnalysisRow = styled.div`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 8px;
+  padding: 5px 0;
+`;
+
+const AnalysisButton = styled.button`
+  background: ${props => props.theme.menus.controls.button};
+  border: 1px solid #777;
+  border-radius: 7px;
+  padding: 2px 8px;
+  cursor: pointer;
+  font-family: inherit;
+`;
+
+const AnalysisTable = styled.table`
+  border-collapse: collapse;
+
+  th, td {
+    padding: 2px 8px;
+    text-align: center;
+  }
+`;
+
+export const ClassBadge = styled.span<{ classification: MoveClass }>`
+  background: ${props => CLASS_COLORS[props.classification]};
+  color: #fff;
+  border-radius: 5px;
+  padding: 0 4px;
+  font-size: 0.8em;
+  font-weight: bold;
+`;
+
+const Graph = styled.svg`
+  display: block;
+  width: 100%;
+  height: 100px;
+  background: #333;
+  cursor: pointer;
+`;
+
+/* white's chance of winning after each move, where clicking a move shows it on the board */
+const EvalGraph: React.FC<{ analysis: GameAnalysis }> = ({ analysis }) => {
+  const { viewNode, state: { tree }, View } = useChessContext();
+  const plies = analysis.moves.length;
+  if (plies === 0) return null;
+
+  const first = analysis.moves[0].before;
+  const points = [winChance(first), ...analysis.moves.map(move => winChance(move.after))];
+  const shown = analysis.moves.findIndex(move => move.node === (viewNode ?? tree.current));
+
+  return (
+    <Graph viewBox={`0 0 ${plies} 100`} preserveAspectRatio='none'>
+      <polygon
+        points={['0,100', ...points.map((chance, i) => `${i},${100 - chance}`), `${plies},100`].join(' ')}
+        fill='#eee'
+      />
+      <line x1={0} x2={plies} y1={50} y2={50} stroke='#888' strokeWidth={0.5} vectorEffect='non-scaling-stroke' />
+      {shown >= 0 && <line x1={shown + 1} x2={shown + 1} y1={0} y2={100} stroke='#4a90d9' strokeWidth={2} vectorEffect='non-scaling-stroke' />}
+      {
+        analysis.moves.map((move, i) =>
+          <rect key={move.node} x={i + 0.5} y={0} width={1} height={100} fill='transparent' onClick={() => View(move.node)}>
+            <title>{CLASS_NAMES[move.classification]}</title>
+          </rect>
+        )
+      }
+    </Graph>
+  );
+};
+
+/* once the game is over, evaluates every move in it and shows how well each side played */
+export const Analysis: React.FC = () => {
+  const { state: { complete, players }, analysis, Analyse, CancelAnalysis } = useChessContext();
+  if (!complete) return null;
+
+  if (!analysis || (!analysis.result && analysis.error)) {
+    return (
+      <AnalysisContainer>
+        <AnalysisRow>
+          <AnalysisButton onClick={() => Analyse()}>
+            <FontAwesomeIcon icon={faMagnifyingGlassChart} /> analyse game
+          </AnalysisButton>
+          {analysis?.error && <span>the analysis failed: {analysis.error}</span>}
+        </AnalysisRow>
+      </AnalysisContainer>
+    );
+  }
+
+  const { result } = analysis;
+  if (!result) {
+    return (
+      <AnalysisContainer>
+        <AnalysisRow>
+          analysing position {analysis.done} of {analysis.total}
+          <progress value={analysis.done} max={analysis.total} />
+          <AnalysisButton onClick={() => CancelAnalysis()} title='Cancel the analysis'>
+            <FontAwesomeIcon icon={faXmark} /> cancel
+          </AnalysisButton>
+        </AnalysisRow>
+      </AnalysisContainer>
+    );
+  }
+
+  return (
+    <AnalysisContainer>
+      <AnalysisTable>
+        <thead>
+          <tr>
+            <th></th>
+            <th>{players.w.name}</th>
+            <th>{players.b.name}</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>accuracy</td>
+            <td>{result.accuracy.w.toFixed(1)}%</td>
+            <td>{result.accuracy.b.toFixed(1)}%</td>
+          </tr>
+          {
+            MOVE_CLASSES.map(classification =>
+              <tr key={classification}>
+                <td><ClassBadge classification={classification}>{CLASS_SYMBOLS[classification]}</ClassBadge> {CLASS_NAMES[classification]}</td>
+                <td>{result.counts.w[classification]}</td>
+                <td>{result.counts.b[classification]}</td>
+              </tr>
+            )
+          }
+        </tbody>
+      </AnalysisTable>
+      <EvalGraph analysis={result} />
+    </AnalysisContainer>
+  );
+};
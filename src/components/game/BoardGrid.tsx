@@ -0,0 +1,130 @@
+import React, { useEffect } from 'react';
+import styled, { DefaultTheme } from 'styled-components';
+
+const BoardDiv = styled.div`
+  width: 100%;
+  height: 100%;
+
+  display: grid;
+  position: relative;
+  grid-template-columns: ${() => 'auto '.repeat(8) + ';'};
+  grid-template-rows: ${() => 'auto '.repeat(8) + ';'};
+  user-select: none;
+  -moz-user-select: none;
+  touch-action: none;
+`;
+
+interface BoardGridProps {
+  gridColor: boolean,
+  grid_x: number,
+  grid_y: number,
+  theme: DefaultTheme,
+}
+
+const BoardGridDiv = styled.div`
+  position: relative;
+  background-color: ${(props: BoardGridProps) => props.gridColor ? props.theme.chess.board_light : props.theme.chess.board_dark};
+  grid-column: ${(props: BoardGridProps) => props.grid_x + 1} / span 1;
+  grid-row: ${(props: BoardGridProps) => props.grid_y + 1} / span 1;
+`;
+
+const BoardGridRowLabel = styled.span`
+  position: absolute;
+  bottom: 5px;
+  left: 5px;
+  color: ${props => props.theme.chess.board_text};
+  font-weight: bold;
+  font-size: 18px;
+  z-index: 10;
+`;
+const BoardGridColLabel = styled.span`
+  position: absolute;
+  top: 5px;
+  right: 5px;
+  color: ${props => props.theme.chess.board_text};
+  font-weight: bold;
+  font-size: 18px;
+  z-index: 10;
+`;
+
+/*
+ * maps between page pixels and board squares for the given board div
+ */
+export const useBoardCoordinates = (boardRef: React.RefObject<HTMLDivElement>) => {
+  const pixelsToGrid = (x: number, y: number): [number, number] => {
+    const parent = boardRef.current;
+    if (parent === null) {
+      console.log('failed to get reference to game board div!');
+      return [0, 0];
+    }
+
+    const grid_x = Math.floor((x - parent.offsetLeft) / (parent.offsetWidth / 8));
+    const grid_y = Math.floor((y - parent.offsetTop) / (parent.offsetHeight / 8));
+    return [grid_x, grid_y];
+  };
+
+  const gridToPixels = (x: number, y: number): [number, number] => {
+    const parent = boardRef.current;
+    if (parent === null) {
+      console.log('failed to get reference to game board div!');
+      return [0, 0];
+    }
+
+    const pixel_x = (x * (parent.offsetWidth / 8)) + parent.offsetLeft;
+    const pixel_y = (y * (parent.offsetHeight / 8)) + parent.offsetTop;
+    return [pixel_x, pixel_y];
+  };
+
+  return { pixelsToGrid, gridToPixels };
+};
+
+interface Props {
+  children?: React.ReactNode;
+  flipped?: boolean; /* drawn from black's side, only the labels change as the squares are symmetrical */
+}
+
+/*
+ * the 8x8 grid of squares with rank and file labels, pieces are passed as children
+ */
+export const BoardGrid = React.forwardRef<HTMLDivElement, Props>(({ children, flipped = false }, ref) => {
+  const boardRef = ref as React.RefObject<HTMLDivElement>;
+
+  const onTouchMove = (e: TouchEvent) => {
+    if (!e.target || !boardRef.current) return;
+    const div = e.target as HTMLDivElement;
+    if (div === boardRef.current || boardRef.current.contains(div)) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  useEffect(() => {
+    document.addEventListener('touchmove', onTouchMove, { passive: false });
+    return () => {
+      document.removeEventListener('touchmove', onTouchMove);
+    };
+  }, []);
+
+  return (
+    <BoardDiv ref={ref}>
+      {
+        [...Array(8 * 8)].map(
+          (_, i) => {
+            const x = i % 8;
+            const y = Math.floor(i / 8);
+            return (<BoardGridDiv
+              key={i}
+              grid_x={x}
+              grid_y={y}
+              gridColor={(i - y) % 2 == 0}
+            >
+              {x == 0 && <BoardGridRowLabel>{flipped ? y + 1 : 8 - y}</BoardGridRowLabel>}
+              {y == 0 && <BoardGridColLabel>{(flipped ? 'hgfedcba' : 'abcdefgh')[x]}</BoardGridColLabel>}
+            </BoardGridDiv>);
+          }
+        )
+      }
+      {children}
+    </BoardDiv>
+  );
+});
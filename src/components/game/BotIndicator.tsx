@@ -0,0 +1,93 @@
+import React from 'react';
+import styled from 'styled-components';
+import { faSpinner, faStop, faSyncAlt } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { useChessContext } from '../../providers/ChessProvider';
+import { ChessState, chessFromState } from '@/game/state';
+
+const IndicatorContainer = styled.div<{ error: boolean }>`
+  flex-basis: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 8px;
+  padding: 4px 8px;
+  font-size: 0.9em;
+  color: ${props => props.error ? '#ff4444' : props.theme.colors.text};
+`;
+
+const IndicatorMessage = styled.span`
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const IndicatorButton = styled.button`
+  background: ${props => props.theme.menus.controls.button};
+  border: 1px solid #777;
+  border-radius: 7px;
+  padding: 2px 8px;
+  cursor: pointer;
+  font-family: inherit;
+`;
+
+/* the bot's expected reply in SAN, or as the engine wrote it if it can't be played here */
+const ponderSan = (state: ChessState, ponder: string): string => {
+  try {
+    return chessFromState(state).move({ from: ponder.slice(0, 2), to: ponder.slice(2, 4), promotion: ponder[4] }).san;
+  } catch (e) {
+    return ponder;
+  }
+};
+
+/*
+ * shows that the bot is thinking, so it can be stopped, or why it stopped so it can be asked again.
+ * after it moves, how long it thought for
+ */
+export const BotIndicator: React.FC = () => {
+  const { state, state: { players }, botStatus, lastBotMove, CancelBot, RetryBot } = useChessContext();
+
+  if (!botStatus) {
+    // the expected reply would be a hint to someone playing the bot, so it is only shown when two bots play
+    const spectating = players.w.type === 'bot' && players.b.type === 'bot';
+    const ponder = spectating ? lastBotMove?.ponder : undefined;
+    if (!lastBotMove || (lastBotMove.time === undefined && !ponder)) return null;
+
+    return (
+      <IndicatorContainer error={false}>
+        <IndicatorMessage>
+          {players[lastBotMove.color].name}
+          {lastBotMove.time !== undefined && ` thought for ${(lastBotMove.time / 1000).toFixed(1)}s`}
+          {ponder && `${lastBotMove.time !== undefined ? ',' : ''} expecting ${ponderSan(state, ponder)}`}
+        </IndicatorMessage>
+      </IndicatorContainer>
+    );
+  }
+
+  const { name } = players[botStatus.color];
+
+  if (botStatus.thinking) {
+    return (
+      <IndicatorContainer error={false}>
+        <FontAwesomeIcon icon={faSpinner} spin />
+        <IndicatorMessage title={botStatus.message}>
+          {name} is thinking{botStatus.message && ` (${botStatus.message})`}
+        </IndicatorMessage>
+        <IndicatorButton onClick={() => CancelBot()} title="Stop the bot thinking">
+          <FontAwesomeIcon icon={faStop} /> cancel
+        </IndicatorButton>
+      </IndicatorContainer>
+    );
+  }
+
+  return (
+    <IndicatorContainer error={botStatus.error !== undefined}>
+      <IndicatorMessage title={botStatus.error}>
+        {botStatus.error ?? `${name} stopped thinking`}
+      </IndicatorMessage>
+      <IndicatorButton onClick={() => RetryBot()} title="Ask the bot for a move again">
+        <FontAwesomeIcon icon={faSyncAlt} /> retry
+      </IndicatorButton>
+    </IndicatorContainer>
+  );
+};
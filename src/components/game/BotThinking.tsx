@@ -0,0 +1,72 @@
+import React from 'react';
+import styled from 'styled-components';
+import { useChessContext } from '../../providers/ChessProvider';
+import { ChessState, chessFromState } from '@/game/state';
+import { formatEvaluation } from './EvalBar';
+
+const ThinkingContainer = styled.div`
+  background: ${props => props.theme.menus.moves.background};
+  color: ${props => props.theme.colors.text};
+  padding: 5px 10px;
+`;
+
+const ThinkingStats = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 12px;
+  padding: 3px 0;
+`;
+
+const ThinkingLine = styled.p`
+  margin: 0;
+  padding: 3px 0;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+/* e.g. 1.2M, for numbers that change too quickly to read in full */
+const formatCount = (count: number): string => {
+  if (count >= 1e6) return `${(count / 1e6).toFixed(1)}M`;
+  if (count >= 1e3) return `${(count / 1e3).toFixed(1)}k`;
+  return String(count);
+};
+
+/* the engine's line in SAN, up to any move that can't be played from here */
+const toSan = (state: ChessState, pv: string[]): string[] => {
+  const chess = chessFromState(state);
+  const san: string[] = [];
+  for (const move of pv) {
+    try {
+      san.push(chess.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] }).san);
+    } catch (e) {
+      break;
+    }
+  }
+  return san;
+};
+
+interface Props {
+  showLine: boolean; /* the score and the moves it expects, which would help a player against the bot */
+}
+
+/* what the bot is considering while it thinks, for engines that report on their search */
+export const BotThinking: React.FC<Props> = ({ showLine }) => {
+  const { state, botStatus } = useChessContext();
+  if (!botStatus?.thinking || !botStatus.info) return null;
+
+  const { color, info } = botStatus;
+  return (
+    <ThinkingContainer>
+      <ThinkingStats>
+        <b>{state.players[color].name} is thinking</b>
+        {showLine && (info.score_cp !== null || info.mate !== null) && <span>{formatEvaluation({ ...info, best_line: info.pv })}</span>}
+        {info.depth !== undefined && <span>depth {info.depth}</span>}
+        {info.nodes !== undefined && <span>{formatCount(info.nodes)} nodes</span>}
+        {info.nps !== undefined && <span>{formatCount(info.nps)} nodes/s</span>}
+        {info.time !== undefined && <span>{(info.time / 1000).toFixed(1)}s</span>}
+      </ThinkingStats>
+      {showLine && info.pv.length > 0 && <ThinkingLine title={info.pv.join(' ')}>{toSan(state, info.pv).join(' ')}</ThinkingLine>}
+    </ThinkingContainer>
+  );
+};
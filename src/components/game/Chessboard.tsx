@@ -1,11 +1,12 @@
 import React, { useState, useRef, useEffect, useContext } from 'react';
-import styled, { DefaultTheme } from 'styled-components';
+import styled from 'styled-components';
 import { SquareToXY, XYtoSquare, useChessContext } from '../../providers/ChessProvider';
 import { Error } from '../../util/Error';
 import { ChessPiece } from './ChessPiece';
+import { BoardGrid, useBoardCoordinates } from './BoardGrid';
 import { Color, PieceSymbol, Square } from 'chess.js';
 import { pieceToFilename, pieceToName, pieceToString } from '@/game/piece';
-import { CompleteFlag } from '@/game/state';
+import { ChessState, describeComplete } from '@/game/state';
 
 interface MoveProps {
   grid_x: number,
@@ -30,6 +31,27 @@ border-radius: 50%;
 background-color: ${(props: MoveProps) => props.will_take ? '#fc0339' : props.is_castle ? '#f5a742' : '#03a1fc'};
 `;
 
+const HintSquare = styled.div<{ grid_x: number, grid_y: number }>`
+  grid-column: ${props => props.grid_x + 1} / span 1;
+  grid-row: ${props => props.grid_y + 1} / span 1;
+  box-shadow: inset 0 0 0 4px #2ecc71;
+  background: #2ecc7144;
+  pointer-events: none;
+`;
+
+const Arrows = styled.svg`
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  pointer-events: none;
+  z-index: 15;
+`;
+
+// the best line is drawn the strongest
+const ARROW_OPACITIES = [0.8, 0.6, 0.45, 0.35, 0.3];
+
 const Move: React.FC<MoveProps> = (props) => {
   return (
     <MoveContainerDiv {...props}>
@@ -38,52 +60,6 @@ const Move: React.FC<MoveProps> = (props) => {
   );
 };
 
-const BoardDiv = styled.div`
-  width: 100%;
-  height: 100%;
-
-  display: grid;
-  position: relative;
-  grid-template-columns: ${() => 'auto '.repeat(8) + ';'};
-  grid-template-rows: ${() => 'auto '.repeat(8) + ';'};
-  user-select: none;
-  -moz-user-select: none;
-  touch-action: none;
-`;
-
-interface BoardGridProps {
-  gridColor: boolean,
-  grid_x: number,
-  grid_y: number,
-  theme: DefaultTheme,
-}
-
-const BoardGridDiv = styled.div`
-  position: relative;
-  background-color: ${(props: BoardGridProps) => props.gridColor ? props.theme.chess.board_light : props.theme.chess.board_dark};
-  grid-column: ${(props: BoardGridProps) => props.grid_x + 1} / span 1;
-  grid-row: ${(props: BoardGridProps) => props.grid_y + 1} / span 1;
-`;
-
-const BoardGridRowLabel = styled.span`
-  position: absolute;
-  bottom: 5px;
-  left: 5px;
-  color: ${props => props.theme.chess.board_text};
-  font-weight: bold;
-  font-size: 18px;
-  z-index: 10;
-`;
-const BoardGridColLabel = styled.span`
-  position: absolute;
-  top: 5px;
-  right: 5px;
-  color: ${props => props.theme.chess.board_text};
-  font-weight: bold;
-  font-size: 18px;
-  z-index: 10;
-`;
-
 const Window = styled.div`
   position: absolute;
   top: 50%;
@@ -132,6 +108,67 @@ const GameOverText = styled.h2`
   padding-bottom: 1em;
 `;
 
+const PausedText = styled(GameOverText)`
+  cursor: pointer;
+`;
+
+const WindowButtons = styled.div`
+  display: flex;
+  justify-content: center;
+  gap: 20px;
+  padding-bottom: 1em;
+`;
+
+const WindowButton = styled.button`
+  background: #fff;
+  border: 1px solid #ffffffff;
+  border-radius: 10px;
+  padding: 10px 20px;
+  font-family: inherit;
+  font-size: 1em;
+  cursor: pointer;
+  transition: border 0.2s, box-shadow 0.2s;
+
+  &:hover {
+    border: 1px solid #777;
+    box-shadow: 1px 1px 5px #aeaeae;
+  }
+`;
+
+const ViewingBanner = styled.div`
+  position: absolute;
+  top: 0;
+  left: 0;
+  right: 0;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  gap: 10px;
+  padding: 5px;
+  background: ${props => props.theme.menus.controls.background};
+  color: #fff;
+  z-index: 20;
+`;
+
+const ViewingButton = styled.button`
+  background: #fff;
+  border: 1px solid #ffffffff;
+  border-radius: 10px;
+  padding: 2px 10px;
+  font-family: inherit;
+  cursor: pointer;
+`;
+
+/* ½ is nicer to read than 1/2 */
+export const formatResult = (result: string): string => result.replace(/1\/2/g, '½');
+
+/* e.g. "hints used: WHITE 2", or undefined if nobody used any */
+export const formatHints = ({ hints, players }: ChessState): string | undefined => {
+  const used = (['w', 'b'] as Color[]).filter(color => (hints?.[color] ?? 0) > 0);
+  if (used.length === 0) return undefined;
+  return 'hints used: ' + used.map(color => `${players[color].name} ${hints?.[color]}`).join(', ');
+};
+
 const PROMOTIONS: PieceSymbol[] = ['q', 'r', 'n', 'b'];
 
 interface GridPosition {
@@ -140,28 +177,24 @@ interface GridPosition {
 }
 
 export const Chessboard: React.FC = () => {
-  const { state: { board, turn, players, complete }, anticheat, clearAnticheat, PotentialMoves, MakeMove, Promote } = useChessContext();
+  const {
+    state, state: { players, paused, drawOffer, tree, complete: gameOver },
+    view: { board, turn, complete, result },
+    viewNode, readOnly, orientation, hint, engineLines, preview, anticheat, clearAnticheat,
+    PotentialMoves, MakeMove, Promote, Pause, AnswerDraw, View, Goto, PreviewLine,
+  } = useChessContext();
+  // squares are drawn upside down from black's side, the same mapping goes both ways
+  const flipped = orientation === 'b';
+  const flip = (x: number, y: number): [number, number] => flipped ? [7 - x, 7 - y] : [x, y];
+  const viewing = viewNode !== undefined;
+  // the board shows something other than the game as it stands, so it can't be played on
+  const browsing = viewing || preview !== undefined;
+  const viewedMove = viewing ? tree.nodes[viewNode]?.move : undefined;
   const [selected, setSelected] = useState<GridPosition | null>(null);
   const boardRef = useRef<HTMLDivElement>(null);
   const [moveError, setMoveError] = useState('');
   const [promotion, setPromotion] = useState<{ from: Square, to: Square } | undefined>(undefined);
 
-  const onTouchMove = (e: TouchEvent) => {
-    if (!e.target || !boardRef.current) return;
-    const div = e.target as HTMLDivElement;
-    if (div === boardRef.current || boardRef.current.contains(div)) {
-      e.preventDefault();
-      e.stopPropagation();
-    }
-  };
-
-  useEffect(() => {
-    document.addEventListener('touchmove', onTouchMove, { passive: false });
-    return () => {
-      document.removeEventListener('touchmove', onTouchMove);
-    };
-  }, []);
-
   useEffect(() => {
     if (anticheat) {
       setMoveError(anticheat);
@@ -170,29 +203,7 @@ export const Chessboard: React.FC = () => {
     }
   }, [anticheat])
 
-  const pixelsToGrid = (x: number, y: number): [number, number] => {
-    const parent = boardRef.current;
-    if (parent === null) {
-      console.log('failed to get reference to game board div!');
-      return [0, 0];
-    }
-
-    const grid_x = Math.floor((x - parent.offsetLeft) / (parent.offsetWidth / 8));
-    const grid_y = Math.floor((y - parent.offsetTop) / (parent.offsetHeight / 8));
-    return [grid_x, grid_y];
-  };
-
-  const gridToPixels = (x: number, y: number): [number, number] => {
-    const parent = boardRef.current;
-    if (parent === null) {
-      console.log('failed to get reference to game board div!');
-      return [0, 0];
-    }
-
-    const pixel_x = (x * (parent.offsetWidth / 8)) + parent.offsetLeft;
-    const pixel_y = (y * (parent.offsetHeight / 8)) + parent.offsetTop;
-    return [pixel_x, pixel_y];
-  };
+  const { pixelsToGrid, gridToPixels } = useBoardCoordinates(boardRef);
 
   const AttemptMove = (from_x: number, from_y: number, to_x: number, to_y: number): void => {
     const from = XYtoSquare(from_x, from_y);
@@ -216,45 +227,26 @@ export const Chessboard: React.FC = () => {
     setPromotion(undefined);
   }
 
+  // the first move of each engine line, from the centre of one square to another
+  const arrows = (engineLines && !preview ? engineLines.lines : [])
+    .map((line, i) => ({ move: line.best_line[0], opacity: ARROW_OPACITIES[i] ?? ARROW_OPACITIES[ARROW_OPACITIES.length - 1] }))
+    .filter(({ move }) => move !== undefined)
+    .map(({ move, opacity }) => {
+      const [x1, y1] = flip(...SquareToXY(move.slice(0, 2) as Square));
+      const [x2, y2] = flip(...SquareToXY(move.slice(2, 4) as Square));
+      return { key: move, x1: x1 + 0.5, y1: y1 + 0.5, x2: x2 + 0.5, y2: y2 + 0.5, opacity };
+    })
+    .reverse();
+
   const gameOverReason = (): string => {
     if (complete === undefined) {
       return 'invalid reason';
     }
-    let player = turn === 'w' ? players.w.name : players.b.name;
-    if (complete.indexOf(CompleteFlag.CHECKMATE) >= 0) {
-      return player + ' is in checkmate';
-    } else if (complete.indexOf(CompleteFlag.OUT_OF_TIME) >= 0) {
-      return player + ' ran out of time';
-    } else if (complete.indexOf(CompleteFlag.INSUFFICIENT_MATERIAL) >= 0) {
-      return player + ' has insufficient material';
-    } else if (complete.indexOf(CompleteFlag.THREEFOLD_REPITITION) >= 0) {
-      return player + ' performed threefold repitition';
-    } else if (complete.indexOf(CompleteFlag.DRAW) >= 0) {
-      return 'draw';
-    }
-
-    return 'invalid reason';
-  }
+    return describeComplete(complete, result, players, turn);
+  };
 
   return (
-    <BoardDiv ref={boardRef}>
-      {
-        [...Array(8 * 8)].map(
-          (_, i) => {
-            const x = i % 8;
-            const y = Math.floor(i / 8);
-            return (<BoardGridDiv
-              key={i}
-              grid_x={x}
-              grid_y={y}
-              gridColor={(i - y) % 2 == 0}
-            >
-              {x == 0 && <BoardGridRowLabel>{8 - y}</BoardGridRowLabel>}
-              {y == 0 && <BoardGridColLabel>{'abcdefgh'[x]}</BoardGridColLabel>}
-            </BoardGridDiv>);
-          }
-        )
-      }
+    <BoardGrid ref={boardRef} flipped={flipped}>
       {
         (board.map((row, y) => row.map((value, x) => { return { x, y, ...value } })).flat()
           .filter(v => v.team && v.type && v.uid) as { team: Color, type: PieceSymbol, uid: string, x: number, y: number }[])
@@ -264,29 +256,49 @@ export const Chessboard: React.FC = () => {
               <ChessPiece
                 key={`piece_${v.uid}`}
                 type={v.type}
-                grid_x={v.x}
-                grid_y={v.y}
+                grid_x={flip(v.x, v.y)[0]}
+                grid_y={flip(v.x, v.y)[1]}
                 is_white={v.team == 'w'}
-                on_place={(x, y) => AttemptMove(v.x, v.y, x, y)}
+                on_place={(x, y) => AttemptMove(v.x, v.y, ...flip(x, y))}
                 pixels_to_grid={pixelsToGrid}
                 grid_to_pixels={gridToPixels}
                 on_select_change={(selected) => selected ? setSelected({ grid_x: v.x, grid_y: v.y }) : setSelected(null)}
-                can_click={v.team === turn && players[turn].type === 'local'}
+                can_click={v.team === turn && players[turn].type === 'local' && !paused && !readOnly && !browsing}
               />
           )
       }
       {
-        selected &&
+        selected && !browsing &&
         PotentialMoves(selected.grid_x, selected.grid_y).map((move, i) =>
           <Move
             key={`move_${i}`}
-            grid_x={SquareToXY(move.to)[0]}
-            grid_y={SquareToXY(move.to)[1]}
+            grid_x={flip(...SquareToXY(move.to))[0]}
+            grid_y={flip(...SquareToXY(move.to))[1]}
             will_take={move.flags.indexOf('e') >= 0 || move.flags.indexOf('c') >= 0}
             is_castle={move.flags.indexOf('k') >= 0 || move.flags.indexOf('q') >= 0}
           />
         )
       }
+      {
+        hint && !browsing && !readOnly && hint.node === tree.current &&
+        [hint.from, ...hint.showTo ? [hint.to] : []].map(square =>
+          <HintSquare key={`hint_${square}`} grid_x={flip(...SquareToXY(square))[0]} grid_y={flip(...SquareToXY(square))[1]} />
+        )
+      }
+      {
+        arrows.length > 0 && <Arrows viewBox='0 0 8 8'>
+          <defs>
+            <marker id='engine-arrow' viewBox='0 0 4 4' refX='2' refY='2' markerWidth='3' markerHeight='3' orient='auto'>
+              <path d='M 0 0 L 4 2 L 0 4 z' fill='#15781b' />
+            </marker>
+          </defs>
+          {
+            arrows.map(({ key, opacity, ...line }) =>
+              <line key={key} {...line} stroke='#15781b' strokeWidth={0.15} opacity={opacity} markerEnd='url(#engine-arrow)' />
+            )
+          }
+        </Arrows>
+      }
       <Error error={moveError} duration={1000} onErrorClose={() => { setMoveError(''); clearAnticheat() }} />
       {
         promotion && <Window>
@@ -307,11 +319,40 @@ export const Chessboard: React.FC = () => {
         </Window>
       }
       {
-        complete && <Window>
-          <WindowTitle>Game Over: </WindowTitle>
+        paused && !complete && !browsing && <Window>
+          <WindowTitle>Paused</WindowTitle>
+          <PausedText onClick={() => Pause()}>click to resume</PausedText>
+        </Window>
+      }
+      {
+        drawOffer && !complete && !browsing && players[drawOffer === 'w' ? 'b' : 'w'].type === 'local' && <Window>
+          <WindowTitle>{players[drawOffer].name} offers a draw</WindowTitle>
+          <WindowButtons>
+            <WindowButton onClick={() => AnswerDraw(true)}>accept</WindowButton>
+            <WindowButton onClick={() => AnswerDraw(false)}>decline</WindowButton>
+          </WindowButtons>
+        </Window>
+      }
+      {
+        complete && !browsing && <Window>
+          <WindowTitle>Game Over: {result && formatResult(result)}</WindowTitle>
           <GameOverText>{gameOverReason()}</GameOverText>
+          {formatHints(state) && <GameOverText>{formatHints(state)}</GameOverText>}
         </Window>
       }
-    </BoardDiv>
+      {
+        preview && <ViewingBanner>
+          engine line {preview.line + 1}{preview.move && `, after ${preview.move}`}
+          <ViewingButton onClick={() => PreviewLine(undefined)}>stop preview</ViewingButton>
+        </ViewingBanner>
+      }
+      {
+        viewing && !preview && <ViewingBanner>
+          viewing {viewedMove ? `after ${viewedMove.san}` : 'the start'}
+          <ViewingButton onClick={() => View(undefined)}>{readOnly ? 'back to end' : 'back to live'}</ViewingButton>
+          {!readOnly && !paused && !gameOver && <ViewingButton onClick={() => Goto(viewNode)}>play from here</ViewingButton>}
+        </ViewingBanner>
+      }
+    </BoardGrid>
   );
 };
\ No newline at end of file
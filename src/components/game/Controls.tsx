@@ -1,14 +1,23 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import styled from 'styled-components';
-import { faUndo, faRedo, faPause, faExpandAlt, faSignOutAlt } from '@fortawesome/free-solid-svg-icons';
+import { faUndo, faRedo, faPause, faPlay, faExpandAlt, faSignOutAlt, faFlag, faHandshake, faDownload, faCopy, faLink, faFastBackward, faStepBackward, faStepForward, faFastForward, faRetweet, faLightbulb } from '@fortawesome/free-solid-svg-icons';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { useChessContext } from '../../providers/ChessProvider';
 import { Error } from '../../util/Error';
+import { DEFAULT_POSITION } from 'chess.js';
+import { exportPgn } from '@/game/pgn';
+import { gameLink } from '@/util/links';
+import { downloadPgn } from '@/util/download';
+import { BotIndicator } from './BotIndicator';
+import { SpectatorControls } from './SpectatorControls';
 
 const ControlsContainer = styled.div`
   display: flex;
   align-items: center;
   justify-content: space-evenly;
+  flex-wrap: wrap;
+  gap: 5px;
+  padding: 5px 0;
   background: ${props => props.theme.menus.controls.background};
   user-select: none;
 `;
@@ -32,31 +41,138 @@ const ControlsButton = styled(FontAwesomeIcon)`
   }
 `;
 
+/* steps through earlier positions without changing the game, also using the arrow keys */
+export const ViewControls: React.FC = () => {
+  const { ViewStep } = useChessContext();
+  // ViewStep is made again on every render, so the listener reads the latest one rather than being added again
+  const viewStepRef = useRef(ViewStep);
+  viewStepRef.current = ViewStep;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      const steps: Record<string, 'first' | 'prev' | 'next' | 'last'> = {
+        Home: 'first',
+        ArrowLeft: 'prev',
+        ArrowRight: 'next',
+        End: 'last',
+      };
+      if (steps[e.key]) {
+        e.preventDefault();
+        viewStepRef.current(steps[e.key]);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, []);
+
+  return (
+    <>
+      <ControlsButton onClick={() => ViewStep('first')} icon={faFastBackward} title="First move" />
+      <ControlsButton onClick={() => ViewStep('prev')} icon={faStepBackward} title="Previous move" />
+      <ControlsButton onClick={() => ViewStep('next')} icon={faStepForward} title="Next move" />
+      <ControlsButton onClick={() => ViewStep('last')} icon={faFastForward} title="Back to live" />
+    </>
+  );
+};
+
 interface Props {
   toggleFullscreen: () => void;
   quitGame: () => void;
 }
 
 export const Controls: React.FC<Props> = ({ toggleFullscreen, quitGame }) => {
-  const { UndoMove, RedoMove, Pause } = useChessContext();
+  const { state, state: { paused, claimableDraw, players }, UndoMove, RedoMove, Pause, Resign, OfferDraw, FlipBoard, hint, hintsLeft, ShowHint } = useChessContext();
+  const spectating = players.w.type === 'bot' && players.b.type === 'bot';
   const [error, setError] = useState('');
 
+  const showHint = () => {
+    ShowHint().then(error => error && setError(error));
+  };
+
+  const resign = () => {
+    if (confirm('would you like to resign this game?'))
+      Resign() || setError('The game is already over');
+  };
+
+  const copyPgn = () => {
+    navigator.clipboard.writeText(exportPgn(state))
+      .then(() => setError('PGN copied'))
+      .catch(() => setError('Unable to copy PGN'));
+  };
+
+  // a game in progress is shared with its moves, otherwise just the position
+  const copyLink = () => {
+    const route = spectating ? '/game/bots' :
+      state.players.w.type === 'bot' || state.players.b.type === 'bot' ? '/game/bot' : '/game';
+    const link = (state.moves ?? []).length > 0 ?
+      gameLink(route, { pgn: exportPgn(state) }) :
+      gameLink(route, { fen: state.startFen === DEFAULT_POSITION ? undefined : state.startFen, variant: state.variant });
+
+    navigator.clipboard.writeText(link)
+      .then(() => setError('Link copied'))
+      .catch(() => setError('Unable to copy link'));
+  };
+
   return (
     <ControlsContainer>
+      <ViewControls />
       <ControlsButton
-        onClick={() => UndoMove() || setError('Undo is disabled')}
+        onClick={() => (!paused && UndoMove()) || setError(paused ? 'Game is paused' : 'Undo is disabled')}
         icon={faUndo}
         title="Undo move"
       />
       <ControlsButton
-        onClick={() => RedoMove() || setError('Redo is disabled')}
+        onClick={() => (!paused && RedoMove()) || setError(paused ? 'Game is paused' : 'Redo is disabled')}
         icon={faRedo}
         title="Redo move"
       />
       <ControlsButton
         onClick={() => Pause() || setError('Pause is disabled')}
-        icon={faPause}
-        title="Pause"
+        icon={paused ? faPlay : faPause}
+        title={paused ? 'Resume' : 'Pause'}
+      />
+      <ControlsButton
+        onClick={() => OfferDraw() || setError('Draw offer declined')}
+        icon={faHandshake}
+        title={claimableDraw ? 'Claim draw' : 'Offer draw'}
+      />
+      {
+        !spectating && <ControlsButton
+          onClick={() => showHint()}
+          icon={faLightbulb}
+          title={hint && hint.node === state.tree.current && !hint.showTo ?
+            'Show where to move' :
+            `Hint${hintsLeft !== undefined ? ` (${hintsLeft} left)` : ''}`}
+        />
+      }
+      <ControlsButton
+        onClick={() => resign()}
+        icon={faFlag}
+        title="Resign"
+      />
+      <ControlsButton
+        onClick={() => downloadPgn(exportPgn(state))}
+        icon={faDownload}
+        title="Download PGN"
+      />
+      <ControlsButton
+        onClick={() => copyPgn()}
+        icon={faCopy}
+        title="Copy PGN"
+      />
+      <ControlsButton
+        onClick={() => copyLink()}
+        icon={faLink}
+        title="Copy link"
+      />
+      <ControlsButton
+        onClick={() => FlipBoard()}
+        icon={faRetweet}
+        title="Flip board"
       />
       <ControlsButton
         onClick={() => toggleFullscreen()}
@@ -70,6 +186,8 @@ export const Controls: React.FC<Props> = ({ toggleFullscreen, quitGame }) => {
         title="Leave game"
       />
 
+      {spectating && <SpectatorControls />}
+      <BotIndicator />
       <Error error={error} duration={1000} onErrorClose={() => setError('')} />
     </ControlsContainer>
   );
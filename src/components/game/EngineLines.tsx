@@ -0,0 +1,98 @@
+import React from 'react';
+import styled from 'styled-components';
+import { faMicrochip } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { MAX_ENGINE_LINES, useChessContext } from '../../providers/ChessProvider';
+import { formatEvaluation } from './EvalBar';
+
+const DEFAULT_LINES = 3;
+
+const LinesContainer = styled.div`
+  background: ${props => props.theme.menus.moves.background};
+  color: ${props => props.theme.colors.text};
+  padding: 5px 10px;
+`;
+
+const LinesRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 5px 0;
+`;
+
+const LinesButton = styled.button`
+  background: ${props => props.theme.menus.controls.button};
+  border: 1px solid #777;
+  border-radius: 7px;
+  padding: 2px 8px;
+  cursor: pointer;
+  font-family: inherit;
+`;
+
+const LinesSelect = styled.select`
+  border-radius: 7px;
+  font-family: inherit;
+`;
+
+const LineItem = styled.p<{ previewing: boolean }>`
+  background: ${props => props.previewing ? props.theme.colors.grid : 'none'};
+  display: flex;
+  gap: 8px;
+  padding: 3px 5px;
+  margin: 0;
+  cursor: pointer;
+`;
+
+const LineScore = styled.span`
+  min-width: 45px;
+  font-weight: bold;
+`;
+
+const LineMoves = styled.span`
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+/* the engine's best moves in the position on the board, each of which can be played out to see where it leads */
+export const EngineLines: React.FC = () => {
+  const { lineCount, engineLines, preview, SetLineCount, PreviewLine } = useChessContext();
+
+  return (
+    <LinesContainer>
+      <LinesRow>
+        <LinesButton onClick={() => SetLineCount(lineCount > 0 ? 0 : DEFAULT_LINES)}>
+          <FontAwesomeIcon icon={faMicrochip} /> {lineCount > 0 ? 'hide engine lines' : 'show engine lines'}
+        </LinesButton>
+        {
+          lineCount > 0 && <>
+            lines
+            <LinesSelect value={lineCount} onChange={e => SetLineCount(parseInt(e.target.value))}>
+              {
+                Array.from({ length: MAX_ENGINE_LINES }, (_, i) => i + 1).map(count =>
+                  <option key={count} value={count}>{count}</option>
+                )
+              }
+            </LinesSelect>
+          </>
+        }
+      </LinesRow>
+      {lineCount > 0 && !engineLines && <LinesRow>thinking...</LinesRow>}
+      {engineLines?.error && <LinesRow>the engine couldn't look at this position: {engineLines.error}</LinesRow>}
+      {engineLines && !engineLines.error && engineLines.lines.length === 0 && <LinesRow>there are no moves in this position</LinesRow>}
+      {
+        engineLines?.lines.map((line, i) =>
+          <LineItem
+            key={i}
+            previewing={preview?.line === i}
+            title='Play this line out on the board'
+            onClick={() => PreviewLine(preview?.line === i ? undefined : i)}
+          >
+            <LineScore>{formatEvaluation(line)}</LineScore>
+            <LineMoves>{line.san.join(' ')}</LineMoves>
+          </LineItem>
+        )
+      }
+    </LinesContainer>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useContext, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { Color } from 'chess.js';
+import { Evaluation, getEvaluation } from '@/api/chessApi';
+import { isAbortError } from '@/api/request';
+import { SettingsContext, getUciSettings } from '@/providers/SettingsProvider';
+
+// waits for the position to settle, e.g. while stepping through moves, before asking for an evaluation
+const EVALUATION_DEBOUNCE = 300;
+
+const BarContainer = styled.div<{ flipped: boolean }>`
+  position: relative;
+  width: 24px;
+  display: flex;
+  flex-direction: ${props => props.flipped ? 'column' : 'column-reverse'};
+  background: #333;
+  user-select: none;
+`;
+
+const BarWhite = styled.div`
+  background: #eee;
+  transition: height 0.5s;
+`;
+
+const BarLabel = styled.span<{ top: boolean, dark: boolean }>`
+  position: absolute;
+  left: 0;
+  right: 0;
+  ${props => props.top ? 'top: 4px;' : 'bottom: 4px;'}
+  text-align: center;
+  font-size: 10px;
+  color: ${props => props.dark ? '#333' : '#eee'};
+`;
+
+/*
+ * the evaluation of a position, which is asked for again when the position changes.
+ * undefined while there is none, and the error if the position couldn't be evaluated
+ */
+export const useEvaluation = (fen: string | undefined, chess960: boolean): { evaluation?: Evaluation, error?: string } => {
+  const settings = useContext(SettingsContext);
+  const [result, setResult] = useState<{ fen: string, evaluation?: Evaluation, error?: string } | undefined>(undefined);
+
+  useEffect(() => {
+    if (!fen) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      getEvaluation(fen, {
+        chess960,
+        provider: settings.aiProvider,
+        uci: getUciSettings(settings),
+        signal: controller.signal,
+        timeout: settings.aiTimeout * 1000,
+      })
+        .then(evaluation => setResult({ fen, evaluation }))
+        .catch((error: Error) => {
+          if (isAbortError(error)) return;
+          setResult({ fen, error: error.message });
+        });
+    }, EVALUATION_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [fen, chess960, settings.aiProvider, settings.uciUrl]);
+
+  // the last evaluation is kept while the next one is on its way, so that the bar doesn't jump
+  return fen ? { evaluation: result?.evaluation, error: result?.fen === fen ? result.error : undefined } : {};
+};
+
+/* how much of the bar is white's, mates fill it and centipawns are squashed so that it never quite fills */
+const whiteShare = ({ score_cp, mate }: Evaluation): number => {
+  if (mate !== null) return mate > 0 ? 1 : 0;
+  return 1 / (1 + Math.pow(10, -(score_cp ?? 0) / 400));
+};
+
+export const formatEvaluation = ({ score_cp, mate }: Evaluation): string => {
+  if (mate !== null) return `${mate < 0 ? '-' : ''}M${Math.abs(mate)}`;
+  const pawns = (score_cp ?? 0) / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+};
+
+interface Props {
+  fen: string | undefined; /* undefined once the game is over, or when there is nothing to evaluate */
+  chess960: boolean;
+  orientation: Color;
+  result?: string; /* shown instead of an evaluation at the end of the game */
+}
+
+/* a bar beside the board showing who is winning, white filling from their side */
+export const EvalBar: React.FC<Props> = ({ fen, chess960, orientation, result }) => {
+  const { evaluation, error } = useEvaluation(fen, chess960);
+
+  let share = evaluation ? whiteShare(evaluation) : 0.5;
+  let label = evaluation ? formatEvaluation(evaluation) : '';
+  if (result) {
+    share = result === '1-0' ? 1 : result === '0-1' ? 0 : 0.5;
+    label = result.replace(/1\/2/g, '½');
+  }
+  // the label sits at the end of whoever is ahead
+  const whiteAhead = share >= 0.5;
+  const top = orientation === 'w' ? !whiteAhead : whiteAhead;
+
+  return (
+    <BarContainer flipped={orientation === 'b'} title={error ?? (evaluation?.best_line.join(' ') || undefined)}>
+      <BarWhite style={{ height: `${share * 100}%` }} />
+      <BarLabel top={top} dark={whiteAhead}>{error && !result ? '?' : label}</BarLabel>
+    </BarContainer>
+  );
+};
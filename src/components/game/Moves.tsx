@@ -1,9 +1,12 @@
 import React, { useContext } from 'react';
 import styled from 'styled-components';
 import { Move } from 'chess.js';
+import { faArrowUp, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { pieceToString } from '../../game/piece';
 import { useChessContext } from '../../providers/ChessProvider';
 import { SettingsContext } from '@/providers/SettingsProvider';
+import { CLASS_NAMES, CLASS_SYMBOLS, ClassBadge } from './Analysis';
 
 const MoveContainer = styled.div`
   grid-area: moves;
@@ -15,15 +18,63 @@ const MoveContainer = styled.div`
   }
 `;
 
-const MoveItem = styled.p`
+const MoveItem = styled.p<{ viewing: boolean }>`
+  background: ${props => props.viewing ? props.theme.colors.grid : 'none'};
+  display: flex;
+  align-items: center;
+  gap: 8px;
   padding: 5px 10px;
   margin: 0px;
   color: ${props => props.theme.colors.text};
+  cursor: pointer;
 `;
 
+const BetterMove = styled.span`
+  font-size: 0.8em;
+  opacity: 0.7;
+`;
+
+const VariationButton = styled(FontAwesomeIcon)`
+  padding: 2px;
+  opacity: 0.6;
+  cursor: pointer;
+
+  &:hover {
+    opacity: 1;
+  }
+`;
+
+interface MoveRow {
+  id: string;
+  depth: number;
+  variation: boolean; /* the first move of a variation */
+}
+
 export const Moves: React.FC = () => {
   const { useChessNotation } = useContext(SettingsContext);
-  const { state: { moves, redoStack } } = useChessContext();
+  const { state: { tree }, viewNode, readOnly, analysis, View, PromoteVariation, DeleteVariation } = useChessContext();
+  const analysed = new Map((analysis?.result?.moves ?? []).map(move => [move.node, move]));
+
+  // the main line with each variation listed, indented, after the move it replaces
+  const rows: MoveRow[] = [];
+  const addLine = (from: string, depth: number) => {
+    let node = tree.nodes[from];
+    while (node.children.length > 0) {
+      const [main, ...variations] = node.children;
+      rows.push({ id: main, depth, variation: false });
+      for (const variation of variations) {
+        rows.push({ id: variation, depth: depth + 1, variation: true });
+        addLine(variation, depth + 1);
+      }
+      node = tree.nodes[main];
+    }
+  };
+  addLine(tree.root, 0);
+
+  const deleteVariation = (id: string) => {
+    if (confirm('would you like to delete this variation?'))
+      DeleteVariation(id);
+  };
 
   const moveString = (move: Move): string => {
     if (useChessNotation) {
@@ -53,28 +104,45 @@ export const Moves: React.FC = () => {
     return str;
   };
 
+  // how the move was judged once the game has been analysed, with what the engine would have played
+  const moveAnalysis = (id: string) => {
+    const judged = analysed.get(id);
+    if (!judged) return null;
+
+    const { classification, better } = judged;
+    return <>
+      <ClassBadge
+        classification={classification}
+        title={CLASS_NAMES[classification] + (better ? `, the engine preferred ${better}` : '')}
+      >
+        {CLASS_SYMBOLS[classification]}
+      </ClassBadge>
+      {better && classification !== 'good' && <BetterMove>{better} was better</BetterMove>}
+    </>;
+  };
+
   return (
     <MoveContainer>
       {
-        (moves ?? []).map(
-          (move, i) => {
-            return (
-              <MoveItem key={`move_${i}`} style={(moves ?? []).length - 1 === i ? { fontWeight: 'bold' } : {}}>
-                {moveString(move)}
-              </MoveItem>
-            );
-          }
-        )
-      }
-      {
-        [...redoStack].reverse().map(
-          (move, i) => {
-            return (
-              <MoveItem key={`move_redo_${i}`}>
-                {moveString(move)}
-              </MoveItem>
-            );
-          }
+        rows.map(({ id, depth, variation }) =>
+          <MoveItem
+            key={`move_${id}`}
+            style={{
+              paddingLeft: 10 + depth * 15,
+              fontWeight: tree.current === id ? 'bold' : undefined,
+            }}
+            viewing={viewNode === id}
+            onClick={() => View(id)}
+          >
+            {moveString(tree.nodes[id].move as Move)}
+            {moveAnalysis(id)}
+            {
+              variation && !readOnly && <>
+                <VariationButton icon={faArrowUp} title='promote variation' onClick={e => { e.stopPropagation(); PromoteVariation(id); }} />
+                <VariationButton icon={faTrash} title='delete variation' onClick={e => { e.stopPropagation(); deleteVariation(id); }} />
+              </>
+            }
+          </MoveItem>
         )
       }
     </MoveContainer>
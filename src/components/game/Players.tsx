@@ -6,6 +6,7 @@ import { pieceToString } from '../../game/piece';
 import { Color, PieceSymbol } from 'chess.js';
 import { useChessContext } from '../../providers/ChessProvider';
 import { CompleteFlag } from '@/game/state';
+import { chargeTime, delayRemaining, formatTimeControl } from '@/game/clock';
 
 const PlayersContainer = styled.div`
   display: flex;
@@ -84,6 +85,7 @@ interface PlayerDataUI {
   timer: {
     minutes: number,
     seconds: number,
+    delay: number,
   };
 }
 
@@ -98,11 +100,12 @@ const EmptyPlayerDataUI: PlayerDataUI = {
   timer: {
     minutes: 0,
     seconds: 0,
+    delay: 0,
   },
 };
 
 export const Players: React.FC = () => {
-  const { state: { players: lobbyPlayers, captured, turn, complete, timers, check }, OutOfTime } = useChessContext();
+  const { state: { players: lobbyPlayers, captured, turn, complete, timers, check, timeControl }, OutOfTime } = useChessContext();
 
   const [players, setPlayers] = useState<PlayerDataUI[]>([
     { ...EmptyPlayerDataUI, lost_pieces: [...EmptyPlayerDataUI.lost_pieces], timer: { ...EmptyPlayerDataUI.timer } },
@@ -121,7 +124,8 @@ export const Players: React.FC = () => {
           p.status = '';
         }
 
-        p.name = lobbyPlayers[colour].name;
+        const { name, level } = lobbyPlayers[colour];
+        p.name = level !== undefined ? `${name} (level ${level})` : name;
         p.playable = lobbyPlayers[colour].type === 'local';
         p.turn = turn === colour;
         p.lost_pieces = [...captured[colour]];
@@ -142,12 +146,13 @@ export const Players: React.FC = () => {
           elapsed = (new Date().getTime() - set) / 1000;
         }
 
-        let timeLeft = time - elapsed;
+        let timeLeft = time - chargeTime(timeControl, elapsed);
         if (timeLeft <= 0) {
           timeLeft = 0;
         }
         p.timer.minutes = Math.floor(timeLeft / 60);
         p.timer.seconds = Math.floor(timeLeft) % 60;
+        p.timer.delay = set ? Math.ceil(delayRemaining(timeControl, elapsed)) : 0;
       });
 
       return [...players];
@@ -185,6 +190,8 @@ export const Players: React.FC = () => {
             </PlayersName>
             <PlayerDetails>
               {v.timer.minutes}:{v.timer.seconds.toString().padStart(2, '0')}
+              {v.timer.delay > 0 && ` (delay ${v.timer.delay}s)`}
+              {` · ${formatTimeControl(timeControl)}`}
             </PlayerDetails>
             <PlayerPieces>
               {v.lost_pieces.map(p => pieceToString(p, i == 1))}
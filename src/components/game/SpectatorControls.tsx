@@ -0,0 +1,53 @@
+import React from 'react';
+import styled from 'styled-components';
+import { faPause, faPlay } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { useChessContext } from '../../providers/ChessProvider';
+
+const SpectatorContainer = styled.div`
+  flex-basis: 100%;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 8px;
+  padding: 4px 8px;
+  color: ${props => props.theme.colors.text};
+`;
+
+const SpectatorButton = styled.button`
+  background: ${props => props.theme.menus.controls.button};
+  border: 1px solid #777;
+  border-radius: 7px;
+  padding: 2px 8px;
+  cursor: pointer;
+  font-family: inherit;
+`;
+
+const SpectatorSelect = styled.select`
+  border-radius: 7px;
+  font-family: inherit;
+`;
+
+const MOVE_DELAYS = [0, 250, 500, 1000, 2000, 5000];
+
+/* for games between two bots, which are watched rather than played */
+export const SpectatorControls: React.FC = () => {
+  const { state: { paused, complete }, moveDelay, Pause, SetMoveDelay } = useChessContext();
+
+  return (
+    <SpectatorContainer>
+      <SpectatorButton onClick={() => Pause()} disabled={complete !== undefined} title={paused ? 'Play' : 'Pause'}>
+        <FontAwesomeIcon icon={paused ? faPlay : faPause} /> {paused ? 'play' : 'pause'}
+      </SpectatorButton>
+      move delay
+      <SpectatorSelect value={moveDelay} onChange={e => SetMoveDelay(parseInt(e.target.value))}>
+        {
+          // a delay picked elsewhere, e.g. in an older saved game, is still shown
+          [...new Set([...MOVE_DELAYS, moveDelay])].sort((a, b) => a - b).map(ms =>
+            <option key={ms} value={ms}>{ms === 0 ? 'none' : `${ms / 1000}s`}</option>
+          )
+        }
+      </SpectatorSelect>
+    </SpectatorContainer>
+  );
+};
@@ -0,0 +1,127 @@
+import { Chess, Color, Move } from "chess.js";
+
+/*
+ * judges the moves of a finished game from the evaluation of every position in it.
+ * moves are judged by how much they lower the mover's chance of winning, as a
+ * pawn matters much more in a level position than when a queen up
+ */
+
+export type MoveClass = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder' | 'missedMate';
+
+/* what the engine thought of a position, from white's side */
+export interface PositionScore {
+    cp: number; /* centipawns, with mates counted as very large scores */
+    mate: number | null; /* moves until mate, negative when black mates */
+    best?: string; /* the engine's move, in UCI notation */
+};
+
+export interface MoveAnalysis {
+    node: string; /* the move in the tree */
+    color: Color;
+    classification: MoveClass;
+    accuracy: number; /* 0 to 100 */
+    before: number; /* the evaluation before and after the move, in centipawns for white */
+    after: number;
+    better?: string; /* the engine's move in SAN, when this wasn't it */
+};
+
+export interface GameAnalysis {
+    moves: MoveAnalysis[];
+    accuracy: Record<Color, number>;
+    counts: Record<Color, Record<MoveClass, number>>;
+};
+
+export const MOVE_CLASSES: MoveClass[] = ['best', 'good', 'inaccuracy', 'mistake', 'blunder', 'missedMate'];
+
+const MATE_SCORE = 10000;
+/* losses of the chance of winning, in percentage points, from which a move is judged worse */
+const INACCURACY = 5;
+const MISTAKE = 10;
+const BLUNDER = 15;
+
+/* a mate in fewer moves scores higher, so that the shortest mate is the best */
+export const mateToCentipawns = (mate: number): number => {
+    return Math.sign(mate) * (MATE_SCORE - Math.min(Math.abs(mate), 100) * 10);
+};
+
+/* a position that is already over, as the engine has no move to score it with */
+export const finalScore = (fen: string): PositionScore | undefined => {
+    const chess = new Chess(fen);
+    if (chess.isCheckmate()) {
+        return { cp: chess.turn() === 'w' ? -MATE_SCORE : MATE_SCORE, mate: null };
+    }
+    if (chess.isGameOver()) {
+        return { cp: 0, mate: null };
+    }
+    return undefined;
+};
+
+/* the chance of white winning, from 0 to 100, as fitted to games between strong players */
+export const winChance = (cp: number): number => {
+    return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+};
+
+const moveAccuracy = (loss: number): number => {
+    return Math.min(100, Math.max(0, 103.1668 * Math.exp(-0.04354 * loss) - 3.1669));
+};
+
+const uci = (move: Move): string => move.from + move.to + (move.promotion ?? '');
+
+/* the engine's move written in SAN, or undefined if it can't be played here */
+const toSan = (fen: string, best: string): string | undefined => {
+    try {
+        return new Chess(fen).move({ from: best.slice(0, 2), to: best.slice(2, 4), promotion: best[4] }).san;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+const classify = (move: Move, before: PositionScore, after: PositionScore, loss: number): MoveClass => {
+    const sign = move.color === 'w' ? 1 : -1;
+    if (before.best === uci(move)) return 'best';
+    // a forced mate for the mover that has been let go
+    if (before.mate !== null && sign * before.mate > 0 && (after.mate === null || sign * after.mate <= 0) && sign * after.cp < MATE_SCORE) {
+        return 'missedMate';
+    }
+    if (loss >= BLUNDER) return 'blunder';
+    if (loss >= MISTAKE) return 'mistake';
+    if (loss >= INACCURACY) return 'inaccuracy';
+    return loss <= 0 ? 'best' : 'good';
+};
+
+/*
+ * scores[i] is the position before moves[i], with one more score for the position after the last move.
+ * nodes are the tree nodes of the moves, so that they can be found again in the move list
+ */
+export const analyseGame = (moves: Move[], nodes: string[], scores: PositionScore[]): GameAnalysis => {
+    const empty = (): Record<MoveClass, number> => ({ best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0, missedMate: 0 });
+    const counts: Record<Color, Record<MoveClass, number>> = { w: empty(), b: empty() };
+    const accuracies: Record<Color, number[]> = { w: [], b: [] };
+
+    const analysed = moves.map((move, i): MoveAnalysis => {
+        const [before, after] = [scores[i], scores[i + 1]];
+        const sign = move.color === 'w' ? 1 : -1;
+        const loss = Math.max(0, sign * (winChance(before.cp) - winChance(after.cp)));
+        const classification = classify(move, before, after, loss);
+        const accuracy = classification === 'best' ? 100 : moveAccuracy(loss);
+
+        counts[move.color][classification]++;
+        accuracies[move.color].push(accuracy);
+        return {
+            node: nodes[i],
+            color: move.color,
+            classification,
+            accuracy,
+            before: before.cp,
+            after: after.cp,
+            better: classification !== 'best' && before.best ? toSan(move.before, before.best) : undefined,
+        };
+    });
+
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 100;
+    return {
+        moves: analysed,
+        accuracy: { w: mean(accuracies.w), b: mean(accuracies.b) },
+        counts,
+    };
+};
@@ -0,0 +1,27 @@
+/* how strongly the bot plays, which is sent to the AI backend with every move */
+export interface BotLevel {
+    level: number;
+    skill: number; /* 0 to 20, as UCI engines use for their skill level */
+    depth?: number; /* limits how many half moves ahead the bot looks */
+    movetime?: number; /* limits how long the bot thinks for, in ms */
+    randomness: number; /* 0 to 1, how often the bot plays a worse move than its best */
+};
+
+export const BOT_LEVELS: BotLevel[] = [
+    { level: 1, skill: 0, depth: 1, randomness: 0.5 },
+    { level: 2, skill: 3, depth: 2, randomness: 0.35 },
+    { level: 3, skill: 6, depth: 4, randomness: 0.25 },
+    { level: 4, skill: 9, depth: 6, randomness: 0.15 },
+    { level: 5, skill: 12, depth: 8, randomness: 0.1 },
+    { level: 6, skill: 15, movetime: 500, randomness: 0.05 },
+    { level: 7, skill: 18, movetime: 1000, randomness: 0 },
+    { level: 8, skill: 20, movetime: 2000, randomness: 0 },
+];
+
+export const DEFAULT_BOT_LEVEL = 4;
+
+/* the closest level to the one asked for, so that out of range levels still play */
+export const getBotLevel = (level: number = DEFAULT_BOT_LEVEL): BotLevel => {
+    const index = Math.min(BOT_LEVELS.length, Math.max(1, Math.round(level))) - 1;
+    return BOT_LEVELS[isNaN(index) ? DEFAULT_BOT_LEVEL - 1 : index];
+};
@@ -0,0 +1,251 @@
+import { Chess, Color, Move, Square } from "chess.js";
+
+export type Variant = 'standard' | 'chess960';
+
+/* the squares of the rooks that can still castle, per colour */
+export type CastlingRooks = Record<Color, Square[]>;
+
+const FILES = 'abcdefgh';
+
+/* knight placements among the five squares left after the bishops and queen */
+const KNIGHTS = [
+    [0, 1], [0, 2], [0, 3], [0, 4], [1, 2],
+    [1, 3], [1, 4], [2, 3], [2, 4], [3, 4],
+];
+
+/*
+ * creates the back rank for a chess960 starting position using
+ * Scharnagl's numbering (518 is the standard starting position)
+ */
+export const generate960 = (position: number = Math.floor(Math.random() * 960)): { fen: string, position: number } => {
+    if (!Number.isInteger(position) || position < 0 || position > 959) {
+        throw new Error('chess960 position number must be between 0 and 959');
+    }
+
+    const rank: string[] = Array(8).fill('');
+    let n = position;
+
+    rank[(n % 4) * 2 + 1] = 'b';
+    n = Math.floor(n / 4);
+    rank[(n % 4) * 2] = 'b';
+    n = Math.floor(n / 4);
+
+    const empty = () => rank
+        .map((piece, i) => piece === '' ? i : -1)
+        .filter(i => i >= 0);
+
+    rank[empty()[n % 6]] = 'q';
+    n = Math.floor(n / 6);
+
+    const knights = empty();
+    for (const i of KNIGHTS[n]) {
+        rank[knights[i]] = 'n';
+    }
+
+    // rook, king and rook fill the last three squares in that order
+    const [left, king, right] = empty();
+    rank[left] = 'r';
+    rank[king] = 'k';
+    rank[right] = 'r';
+
+    // with only two rooks, X-FEN castling rights are the same as standard chess
+    const black = rank.join('');
+    return {
+        fen: `${black}/pppppppp/8/8/8/8/PPPPPPPP/${black.toUpperCase()} w KQkq - 0 1`,
+        position,
+    };
+};
+
+const findKing = (chess: Chess, color: Color): Square | undefined => {
+    return chess.board().flat().find(piece => piece?.type === 'k' && piece.color === color)?.square;
+};
+
+/*
+ * splits a chess960 FEN into the FEN given to chess.js (without castling rights,
+ * as we handle castling ourselves) and the rooks which are still able to castle.
+ * accepts Shredder-FEN (file letters) as well as X-FEN (KQkq for the outermost rooks)
+ */
+export const parse960Fen = (fen: string): { fen: string, castlingRooks: CastlingRooks } => {
+    const tokens = fen.trim().split(/\s+/);
+    const castling = tokens[2] ?? '-';
+    const castlingRooks: CastlingRooks = { w: [], b: [] };
+
+    if (tokens.length > 2) {
+        tokens[2] = '-';
+    }
+
+    const chess = new Chess(tokens.join(' '));
+    for (const flag of castling === '-' ? '' : castling) {
+        const color: Color = flag === flag.toUpperCase() ? 'w' : 'b';
+        const rank = color === 'w' ? '1' : '8';
+        const king = findKing(chess, color);
+        const rooks = [...FILES]
+            .map(file => `${file}${rank}` as Square)
+            .filter(square => chess.get(square)?.type === 'r' && chess.get(square)?.color === color);
+
+        let rook: Square | undefined;
+        if (/[kq]/i.test(flag)) {
+            const kingFile = king ? FILES.indexOf(king[0]) : -1;
+            const side = rooks.filter(square => (FILES.indexOf(square[0]) > kingFile) === (flag.toLowerCase() === 'k'));
+            rook = flag.toLowerCase() === 'k' ? side[side.length - 1] : side[0];
+        } else {
+            rook = rooks.find(square => square[0] === flag.toLowerCase());
+        }
+
+        if (!rook || !king || king[1] !== rank) {
+            throw new Error(`illegal position: castling right '${flag}' has no matching king and rook`);
+        }
+        castlingRooks[color].push(rook);
+    }
+
+    return { fen: tokens.join(' '), castlingRooks };
+};
+
+/* the FEN with castling rights written as rook files (Shredder-FEN) */
+export const to960Fen = (chess: Chess, castlingRooks: CastlingRooks): string => {
+    const tokens = chess.fen().split(' ');
+    const castling = [
+        ...castlingRooks.w.map(square => square[0].toUpperCase()),
+        ...castlingRooks.b.map(square => square[0]),
+    ].join('');
+    tokens[2] = castling || '-';
+    return tokens.join(' ');
+};
+
+/*
+ * the squares that the king and rook move between when castling,
+ * in chess960 the move is written as the king moving onto the rook
+ */
+export const getCastlingSquares = (move: Move, variant: Variant): { king: [Square, Square], rook: [Square, Square] } => {
+    const rank = move.from[1];
+    const kingside = move.flags.indexOf('k') >= 0;
+    return {
+        king: [move.from, `${kingside ? 'g' : 'c'}${rank}` as Square],
+        rook: [
+            variant === 'chess960' ? move.to : `${kingside ? 'h' : 'a'}${rank}` as Square,
+            `${kingside ? 'f' : 'd'}${rank}` as Square,
+        ],
+    };
+};
+
+interface Castle {
+    color: Color;
+    king: Square;
+    rook: Square;
+    kingside: boolean;
+}
+
+const castleTargets = ({ king, rook, kingside }: Castle): [Square, Square] => {
+    const rank = king[1];
+    return [`${kingside ? 'g' : 'c'}${rank}` as Square, `${kingside ? 'f' : 'd'}${rank}` as Square];
+};
+
+/* squares between a and b, including both */
+const squaresBetween = (a: Square, b: Square): Square[] => {
+    const [from, to] = [FILES.indexOf(a[0]), FILES.indexOf(b[0])].sort((x, y) => x - y);
+    return [...FILES.slice(from, to + 1)].map(file => `${file}${a[1]}` as Square);
+};
+
+/* the castling moves available to the side to move */
+const legalCastles = (chess: Chess, castlingRooks: CastlingRooks): Castle[] => {
+    const color = chess.turn();
+    const them: Color = color === 'w' ? 'b' : 'w';
+    const king = findKing(chess, color);
+    if (!king || chess.isCheck()) {
+        return [];
+    }
+
+    return castlingRooks[color]
+        .map(rook => ({ color, king, rook, kingside: rook > king }))
+        .filter(castle => {
+            const [kingTo, rookTo] = castleTargets(castle);
+
+            // every square either piece crosses must be empty, apart from the king and rook themselves
+            const crossed = [...squaresBetween(castle.king, kingTo), ...squaresBetween(castle.rook, rookTo)];
+            if (crossed.some(square => square !== castle.king && square !== castle.rook && chess.get(square))) {
+                return false;
+            }
+
+            // the king can't pass through or land on an attacked square
+            const without = new Chess(chess.fen());
+            without.remove(castle.king);
+            without.remove(castle.rook);
+            return squaresBetween(castle.king, kingTo).every(square => !without.isAttacked(square, them));
+        });
+};
+
+/* castling moves for the piece on the given square, as the king moving onto its rook */
+export const getCastlingMoves = (chess: Chess, castlingRooks: CastlingRooks, square: Square): { to: Square, flags: string }[] => {
+    return legalCastles(chess, castlingRooks)
+        .filter(castle => castle.king === square)
+        .map(castle => ({ to: castle.rook, flags: castle.kingside ? 'k' : 'q' }));
+};
+
+/*
+ * finds the castle being attempted by a move, either the king moving onto its rook
+ * or the king moving to its castled square when that isn't an ordinary king move
+ */
+const findCastle = (chess: Chess, castlingRooks: CastlingRooks, from: Square, to: Square): Castle | undefined => {
+    const castles = legalCastles(chess, castlingRooks).filter(castle => castle.king === from);
+    const onRook = castles.find(castle => castle.rook === to);
+    if (onRook) {
+        return onRook;
+    }
+
+    const ordinary = chess.moves({ square: from, verbose: true }).some(move => move.to === to);
+    return ordinary ? undefined : castles.find(castle => castleTargets(castle)[0] === to);
+};
+
+/*
+ * plays a chess960 castle, reloading chess with the resulting position
+ * as chess.js is unable to castle with rooks that didn't start on the a or h file.
+ * returns undefined if the move isn't a castle
+ */
+export const makeCastle = (chess: Chess, castlingRooks: CastlingRooks, from: Square, to: Square): Move | undefined => {
+    const castle = findCastle(chess, castlingRooks, from, to);
+    if (!castle) {
+        return undefined;
+    }
+
+    const before = chess.fen();
+    const [kingTo, rookTo] = castleTargets(castle);
+    const [, turn, , , halfMoves, moveNumber] = before.split(' ');
+
+    const board = new Chess(before);
+    board.remove(castle.king);
+    board.remove(castle.rook);
+    board.put({ type: 'k', color: castle.color }, kingTo);
+    board.put({ type: 'r', color: castle.color }, rookTo);
+
+    const after = [
+        board.fen().split(' ')[0],
+        turn === 'w' ? 'b' : 'w',
+        '-',
+        '-',
+        parseInt(halfMoves) + 1,
+        parseInt(moveNumber) + (turn === 'b' ? 1 : 0),
+    ].join(' ');
+    chess.load(after);
+
+    const san = castle.kingside ? 'O-O' : 'O-O-O';
+    return {
+        color: castle.color,
+        from: castle.king,
+        to: castle.rook,
+        piece: 'k',
+        flags: castle.kingside ? 'k' : 'q',
+        san: san + (chess.isCheckmate() ? '#' : chess.isCheck() ? '+' : ''),
+        lan: `${castle.king}${castle.rook}`,
+        before,
+        after,
+    };
+};
+
+/* castling rights lost by moving the king or a rook, or having a rook captured */
+export const updateCastlingRooks = (castlingRooks: CastlingRooks, move: Move): CastlingRooks => {
+    const them: Color = move.color === 'w' ? 'b' : 'w';
+    return {
+        [move.color]: move.piece === 'k' ? [] : castlingRooks[move.color].filter(square => square !== move.from),
+        [them]: castlingRooks[them].filter(square => square !== move.to),
+    } as CastlingRooks;
+};
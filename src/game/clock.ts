@@ -0,0 +1,54 @@
+/*
+ * simple delay: the clock only starts counting down after the delay
+ * bronstein: time used is given back after the move, up to the delay
+ */
+export type DelayMode = 'none' | 'simple' | 'bronstein';
+
+/* all times are in seconds */
+export interface TimeControl {
+    base: number;
+    increment: number;
+    delay: number;
+    delayMode: DelayMode;
+};
+
+export const TIME_CONTROL_PRESETS: Record<string, TimeControl> = {
+    bullet: { base: 60, increment: 0, delay: 0, delayMode: 'none' },
+    blitz: { base: 3 * 60, increment: 2, delay: 0, delayMode: 'none' },
+    rapid: { base: 10 * 60, increment: 5, delay: 0, delayMode: 'none' },
+    classical: { base: 30 * 60, increment: 20, delay: 0, delayMode: 'none' },
+};
+
+/* e.g. 10+5, 5 d3 (simple delay) or 5 b3 (bronstein delay) */
+export const formatTimeControl = ({ base, increment, delay, delayMode }: TimeControl): string => {
+    const minutes = base % 60 === 0 ? `${base / 60}` : (base / 60).toFixed(1);
+    let result = increment > 0 ? `${minutes}+${increment}` : minutes;
+    if (delayMode !== 'none' && delay > 0) {
+        result += ` ${delayMode === 'simple' ? 'd' : 'b'}${delay}`;
+    }
+    return result;
+};
+
+/* how much time comes off the clock after thinking for elapsed seconds */
+export const chargeTime = ({ delay, delayMode }: TimeControl, elapsed: number): number => {
+    if (delayMode === 'simple') {
+        return Math.max(0, elapsed - delay);
+    }
+    return elapsed;
+};
+
+/* how much time is added back to the clock once a move has been made */
+export const creditTime = ({ increment, delay, delayMode }: TimeControl, elapsed: number): number => {
+    if (delayMode === 'bronstein') {
+        return increment + Math.min(elapsed, delay);
+    }
+    return increment;
+};
+
+/* seconds of simple delay remaining before the clock starts counting down */
+export const delayRemaining = ({ delay, delayMode }: TimeControl, elapsed: number): number => {
+    if (delayMode !== 'simple') {
+        return 0;
+    }
+    return Math.max(0, delay - elapsed);
+};
@@ -0,0 +1,675 @@
+import { Chess, Color, Move, PieceSymbol, Square } from "chess.js";
+
+/*
+ * a small chess engine for playing without the AI backend: iterative deepening
+ * alpha-beta search with a transposition table and quiescence search, scoring
+ * positions with material and piece-square tables. it has its own 0x88 board
+ * as chess.js is too slow to search with, which is only used to check the final move
+ */
+
+export interface SearchOptions {
+    depth?: number; /* the deepest search to try */
+    movetime?: number; /* how long to search for, in ms */
+    randomness?: number; /* 0 to 1, how often to play a move that is close to the best */
+    multipv?: number; /* how many of the best moves to give lines for */
+};
+
+export interface SearchLine {
+    score: number; /* in centipawns for the side to move */
+    mate?: number;
+    pv: string[];
+};
+
+export interface SearchResult {
+    move?: Move;
+    score: number; /* in centipawns for the side to move */
+    mate?: number; /* moves until mate, negative when the side to move is mated */
+    pv: string[]; /* the line the engine expects, in UCI notation, starting with move */
+    depth: number; /* of the last search that finished */
+    nodes: number;
+    lines: SearchLine[]; /* the best moves, best first, as many as multipv asked for */
+};
+
+const DEFAULT_MOVETIME = 1000;
+const MAX_MOVETIME = 5000; /* even when only a depth is given */
+const MAX_DEPTH = 64;
+const MATE = 100000;
+const INFINITY = MATE + 1;
+
+/* pieces are stored as their type, plus BLACK for black pieces */
+const PAWN = 1, KNIGHT = 2, BISHOP = 3, ROOK = 4, QUEEN = 5, KING = 6, BLACK = 8;
+const TYPES: PieceSymbol[] = ['p', 'p', 'n', 'b', 'r', 'q', 'k'];
+const VALUES = [0, 100, 320, 330, 500, 900, 0];
+
+/* piece-square tables for white, from a8 to h1 (the simplified evaluation function) */
+const PST: number[][] = [
+    [],
+    [
+        0, 0, 0, 0, 0, 0, 0, 0,
+        50, 50, 50, 50, 50, 50, 50, 50,
+        10, 10, 20, 30, 30, 20, 10, 10,
+        5, 5, 10, 25, 25, 10, 5, 5,
+        0, 0, 0, 20, 20, 0, 0, 0,
+        5, -5, -10, 0, 0, -10, -5, 5,
+        5, 10, 10, -20, -20, 10, 10, 5,
+        0, 0, 0, 0, 0, 0, 0, 0,
+    ],
+    [
+        -50, -40, -30, -30, -30, -30, -40, -50,
+        -40, -20, 0, 0, 0, 0, -20, -40,
+        -30, 0, 10, 15, 15, 10, 0, -30,
+        -30, 5, 15, 20, 20, 15, 5, -30,
+        -30, 0, 15, 20, 20, 15, 0, -30,
+        -30, 5, 10, 15, 15, 10, 5, -30,
+        -40, -20, 0, 5, 5, 0, -20, -40,
+        -50, -40, -30, -30, -30, -30, -40, -50,
+    ],
+    [
+        -20, -10, -10, -10, -10, -10, -10, -20,
+        -10, 0, 0, 0, 0, 0, 0, -10,
+        -10, 0, 5, 10, 10, 5, 0, -10,
+        -10, 5, 5, 10, 10, 5, 5, -10,
+        -10, 0, 10, 10, 10, 10, 0, -10,
+        -10, 10, 10, 10, 10, 10, 10, -10,
+        -10, 5, 0, 0, 0, 0, 5, -10,
+        -20, -10, -10, -10, -10, -10, -10, -20,
+    ],
+    [
+        0, 0, 0, 0, 0, 0, 0, 0,
+        5, 10, 10, 10, 10, 10, 10, 5,
+        -5, 0, 0, 0, 0, 0, 0, -5,
+        -5, 0, 0, 0, 0, 0, 0, -5,
+        -5, 0, 0, 0, 0, 0, 0, -5,
+        -5, 0, 0, 0, 0, 0, 0, -5,
+        -5, 0, 0, 0, 0, 0, 0, -5,
+        0, 0, 0, 5, 5, 0, 0, 0,
+    ],
+    [
+        -20, -10, -10, -5, -5, -10, -10, -20,
+        -10, 0, 0, 0, 0, 0, 0, -10,
+        -10, 0, 5, 5, 5, 5, 0, -10,
+        -5, 0, 5, 5, 5, 5, 0, -5,
+        0, 0, 5, 5, 5, 5, 0, -5,
+        -10, 5, 5, 5, 5, 5, 0, -10,
+        -10, 0, 5, 0, 0, 0, 0, -10,
+        -20, -10, -10, -5, -5, -10, -10, -20,
+    ],
+    [
+        -30, -40, -40, -50, -50, -40, -40, -30,
+        -30, -40, -40, -50, -50, -40, -40, -30,
+        -30, -40, -40, -50, -50, -40, -40, -30,
+        -30, -40, -40, -50, -50, -40, -40, -30,
+        -20, -30, -30, -40, -40, -30, -30, -20,
+        -10, -20, -20, -20, -20, -20, -20, -10,
+        20, 20, 0, 0, 0, 0, 20, 20,
+        20, 30, 10, 0, 0, 10, 30, 20,
+    ],
+    [
+        -50, -40, -30, -20, -20, -30, -40, -50,
+        -30, -20, -10, 0, 0, -10, -20, -30,
+        -30, -10, 20, 30, 30, 20, -10, -30,
+        -30, -10, 30, 40, 40, 30, -10, -30,
+        -30, -10, 30, 40, 40, 30, -10, -30,
+        -30, -10, 20, 30, 30, 20, -10, -30,
+        -30, -30, 0, 0, 0, 0, -30, -30,
+        -50, -30, -30, -30, -30, -30, -30, -50,
+    ],
+];
+
+const KING_END = 7; /* the index of the endgame king table */
+
+const KNIGHT_STEPS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const BISHOP_STEPS = [-17, -15, 15, 17];
+const ROOK_STEPS = [-16, -1, 1, 16];
+const KING_STEPS = [...BISHOP_STEPS, ...ROOK_STEPS];
+
+/* castling rights, and which are lost when a piece moves from or to a square */
+const WK = 1, WQ = 2, BK = 4, BQ = 8;
+const CASTLING_LOST: Record<number, number> = { 116: WK | WQ, 119: WK, 112: WQ, 4: BK | BQ, 7: BK, 0: BQ };
+
+/* squares are numbered 0x88 style, from a8 = 0 to h1 = 119 */
+const toIndex = (square: string): number => (8 - parseInt(square[1])) * 16 + square.charCodeAt(0) - 97;
+const toSquare = (index: number): Square => `${'abcdefgh'[index & 7]}${8 - (index >> 4)}` as Square;
+
+const toUci = ({ from, to, promotion }: EngineMove): string => toSquare(from) + toSquare(to) + (promotion ? TYPES[promotion & 7] : '');
+
+/* black uses the tables mirrored top to bottom */
+const tableIndex = (piece: number, index: number): number => {
+    const row = piece & BLACK ? 7 - (index >> 4) : index >> 4;
+    return row * 8 + (index & 7);
+};
+
+/* random numbers for hashing positions, in two parts as bitwise operations only use 32 bits */
+const random = () => Math.floor(Math.random() * 0x800000);
+const ZOBRIST = Array.from({ length: 16 }, () => Array.from({ length: 128 }, () => [random(), random()]));
+const ZOBRIST_TURN = [random(), random()];
+const ZOBRIST_CASTLING = Array.from({ length: 16 }, () => [random(), random()]);
+
+interface EngineMove {
+    from: number;
+    to: number;
+    piece: number;
+    captured: number;
+    promotion: number;
+    enPassant: boolean;
+    castle: boolean;
+};
+
+interface Undo {
+    move: EngineMove;
+    castling: number;
+    enPassant: number;
+    halfMoves: number;
+    hash: [number, number];
+    score: number;
+};
+
+class Board {
+    squares = new Int8Array(128);
+    black = false; /* whose turn it is */
+    castling = 0;
+    enPassant = -1;
+    halfMoves = 0;
+    kings = [0, 0]; /* white, black */
+    hash: [number, number] = [0, 0];
+    score = 0; /* for white */
+    endgame = false;
+    private history: Undo[] = [];
+
+    constructor(fen: string) {
+        const [placement, turn, castling, enPassant, halfMoves] = fen.split(/\s+/);
+        let index = 0;
+        for (const char of placement) {
+            if (char === '/') {
+                index += 8;
+            } else if (/\d/.test(char)) {
+                index += parseInt(char);
+            } else {
+                const type = TYPES.indexOf(char.toLowerCase() as PieceSymbol, 1);
+                this.squares[index++] = type | (char === char.toLowerCase() ? BLACK : 0);
+            }
+        }
+
+        this.black = turn === 'b';
+        this.castling = (castling ?? '-').split('').reduce((rights, flag) =>
+            rights | ({ K: WK, Q: WQ, k: BK, q: BQ }[flag] ?? 0), 0);
+        this.enPassant = enPassant && enPassant !== '-' ? toIndex(enPassant) : -1;
+        this.halfMoves = parseInt(halfMoves ?? '0') || 0;
+
+        // kings come out to fight once the queens and most pieces are gone
+        const pieces = [...this.squares].filter(piece => (piece & 7) > PAWN && (piece & 7) < KING);
+        this.endgame = !pieces.some(piece => (piece & 7) === QUEEN) || pieces.length <= 4;
+
+        this.hash = this.black ? [...ZOBRIST_TURN] as [number, number] : [0, 0];
+        this.toggle(ZOBRIST_CASTLING[this.castling]);
+        this.squares.forEach((piece, index) => {
+            if (!piece) return;
+            if ((piece & 7) === KING) this.kings[piece & BLACK ? 1 : 0] = index;
+            this.toggle(ZOBRIST[piece][index]);
+            this.score += piece & BLACK ? -this.value(piece, index) : this.value(piece, index);
+        });
+    }
+
+    private toggle([high, low]: number[]) {
+        this.hash[0] ^= high;
+        this.hash[1] ^= low;
+    }
+
+    private value(piece: number, index: number): number {
+        const type = piece & 7;
+        const table = type === KING && this.endgame ? PST[KING_END] : PST[type];
+        return VALUES[type] + table[tableIndex(piece, index)];
+    }
+
+    /* the position, without the move counters, as a number */
+    key(): number {
+        return (this.hash[0] * 0x800000 + this.hash[1]) * 128 + (this.enPassant + 1);
+    }
+
+    isAttacked(index: number, byBlack: boolean): boolean {
+        const color = byBlack ? BLACK : 0;
+        // pawns attack towards the other side of the board
+        const pawn = byBlack ? -16 : 16;
+        for (const side of [-1, 1]) {
+            const from = index + pawn + side;
+            if (!(from & 0x88) && this.squares[from] === (PAWN | color)) return true;
+        }
+        for (const step of KNIGHT_STEPS) {
+            const from = index + step;
+            if (!(from & 0x88) && this.squares[from] === (KNIGHT | color)) return true;
+        }
+        for (const step of KING_STEPS) {
+            const from = index + step;
+            if (!(from & 0x88) && this.squares[from] === (KING | color)) return true;
+        }
+        for (const [steps, slider] of [[BISHOP_STEPS, BISHOP], [ROOK_STEPS, ROOK]] as [number[], number][]) {
+            for (const step of steps) {
+                for (let from = index + step; !(from & 0x88); from += step) {
+                    const piece = this.squares[from];
+                    if (!piece) continue;
+                    if (piece === (slider | color) || piece === (QUEEN | color)) return true;
+                    break;
+                }
+            }
+        }
+        return false;
+    }
+
+    inCheck(): boolean {
+        return this.isAttacked(this.kings[this.black ? 1 : 0], !this.black);
+    }
+
+    /* moves that may leave the king in check, which make returns false for */
+    moves(capturesOnly: boolean = false): EngineMove[] {
+        const moves: EngineMove[] = [];
+        const color = this.black ? BLACK : 0;
+        const add = (from: number, to: number, piece: number, extra: Partial<EngineMove> = {}) => {
+            moves.push({ from, to, piece, captured: this.squares[to], promotion: 0, enPassant: false, castle: false, ...extra });
+        };
+
+        for (let from = 0; from < 128; from++) {
+            if (from & 0x88) {
+                from += 7;
+                continue;
+            }
+            const piece = this.squares[from];
+            if (!piece || (piece & BLACK) !== color) continue;
+            const type = piece & 7;
+
+            if (type === PAWN) {
+                const forward = this.black ? 16 : -16;
+                const lastRow = this.black ? 7 : 0;
+                const pawnMove = (to: number, extra: Partial<EngineMove> = {}) => {
+                    if (to >> 4 === lastRow) {
+                        for (const promotion of capturesOnly ? [QUEEN] : [QUEEN, KNIGHT, ROOK, BISHOP]) {
+                            add(from, to, piece, { ...extra, promotion: promotion | color });
+                        }
+                    } else {
+                        add(from, to, piece, extra);
+                    }
+                };
+
+                const one = from + forward;
+                if (!this.squares[one] && (!capturesOnly || one >> 4 === lastRow)) {
+                    pawnMove(one);
+                    const startRow = this.black ? 1 : 6;
+                    if (!capturesOnly && from >> 4 === startRow && !this.squares[one + forward]) {
+                        add(from, one + forward, piece);
+                    }
+                }
+                for (const side of [-1, 1]) {
+                    const to = one + side;
+                    if (to & 0x88) continue;
+                    const target = this.squares[to];
+                    if (target && (target & BLACK) !== color) {
+                        pawnMove(to);
+                    } else if (to === this.enPassant) {
+                        add(from, to, piece, { captured: PAWN | (color ^ BLACK), enPassant: true });
+                    }
+                }
+                continue;
+            }
+
+            const steps = type === KNIGHT ? KNIGHT_STEPS : type === BISHOP ? BISHOP_STEPS : type === ROOK ? ROOK_STEPS : KING_STEPS;
+            const slides = type === BISHOP || type === ROOK || type === QUEEN;
+            for (const step of steps) {
+                for (let to = from + step; !(to & 0x88); to += step) {
+                    const target = this.squares[to];
+                    if (target && (target & BLACK) === color) break;
+                    if (target || !capturesOnly) add(from, to, piece);
+                    if (target || !slides) break;
+                }
+            }
+        }
+
+        // castling through or out of check isn't allowed, landing in check is caught by make
+        if (!capturesOnly && this.castling) {
+            const king = this.black ? 4 : 116;
+            const them = !this.black;
+            const rights = this.black ? [BK, BQ] : [WK, WQ];
+            if (this.squares[king] === (KING | color) && !this.isAttacked(king, them)) {
+                if (this.castling & rights[0] && !this.squares[king + 1] && !this.squares[king + 2] &&
+                    this.squares[king + 3] === (ROOK | color) && !this.isAttacked(king + 1, them)) {
+                    add(king, king + 2, KING | color, { castle: true });
+                }
+                if (this.castling & rights[1] && !this.squares[king - 1] && !this.squares[king - 2] && !this.squares[king - 3] &&
+                    this.squares[king - 4] === (ROOK | color) && !this.isAttacked(king - 1, them)) {
+                    add(king, king - 2, KING | color, { castle: true });
+                }
+            }
+        }
+
+        return moves;
+    }
+
+    private put(index: number, piece: number) {
+        this.squares[index] = piece;
+        this.toggle(ZOBRIST[piece][index]);
+        this.score += piece & BLACK ? -this.value(piece, index) : this.value(piece, index);
+    }
+
+    private take(index: number) {
+        const piece = this.squares[index];
+        this.squares[index] = 0;
+        this.toggle(ZOBRIST[piece][index]);
+        this.score -= piece & BLACK ? -this.value(piece, index) : this.value(piece, index);
+    }
+
+    /* plays a move, returning false (and taking it back) if it leaves the king in check */
+    make(move: EngineMove): boolean {
+        this.history.push({
+            move,
+            castling: this.castling,
+            enPassant: this.enPassant,
+            halfMoves: this.halfMoves,
+            hash: [...this.hash] as [number, number],
+            score: this.score,
+        });
+
+        const { from, to, piece } = move;
+        if (move.enPassant) {
+            this.take(to + (this.black ? -16 : 16));
+        } else if (move.captured) {
+            this.take(to);
+        }
+        this.take(from);
+        this.put(to, move.promotion || piece);
+
+        if (move.castle) {
+            const [rookFrom, rookTo] = to > from ? [to + 1, to - 1] : [to - 2, to + 1];
+            const rook = this.squares[rookFrom];
+            this.take(rookFrom);
+            this.put(rookTo, rook);
+        }
+        if ((piece & 7) === KING) {
+            this.kings[this.black ? 1 : 0] = to;
+        }
+
+        this.toggle(ZOBRIST_CASTLING[this.castling]);
+        this.castling &= ~((CASTLING_LOST[from] ?? 0) | (CASTLING_LOST[to] ?? 0));
+        this.toggle(ZOBRIST_CASTLING[this.castling]);
+        this.enPassant = (piece & 7) === PAWN && Math.abs(to - from) === 32 ? (from + to) / 2 : -1;
+        this.halfMoves = (piece & 7) === PAWN || move.captured ? 0 : this.halfMoves + 1;
+
+        this.black = !this.black;
+        this.toggle(ZOBRIST_TURN);
+
+        if (this.isAttacked(this.kings[this.black ? 0 : 1], this.black)) {
+            this.undo();
+            return false;
+        }
+        return true;
+    }
+
+    undo() {
+        const { move, castling, enPassant, halfMoves, hash, score } = this.history.pop() as Undo;
+        const { from, to, piece } = move;
+        this.black = !this.black;
+
+        this.squares[from] = piece;
+        this.squares[to] = move.enPassant ? 0 : move.captured;
+        if (move.enPassant) {
+            this.squares[to + (this.black ? -16 : 16)] = move.captured;
+        }
+        if (move.castle) {
+            const [rookFrom, rookTo] = to > from ? [to + 1, to - 1] : [to - 2, to + 1];
+            this.squares[rookFrom] = this.squares[rookTo];
+            this.squares[rookTo] = 0;
+        }
+        if ((piece & 7) === KING) {
+            this.kings[this.black ? 1 : 0] = from;
+        }
+
+        this.castling = castling;
+        this.enPassant = enPassant;
+        this.halfMoves = halfMoves;
+        this.hash = hash;
+        this.score = score;
+    }
+};
+
+class SearchTimeout extends Error { };
+
+interface TableEntry {
+    depth: number;
+    score: number;
+    flag: 'exact' | 'lower' | 'upper';
+    move?: number;
+};
+
+const moveKey = (move: EngineMove): number => move.from * 128 * 16 + move.to * 16 + move.promotion;
+
+/* the best move first, then captures of the most valuable pieces by the least valuable */
+const order = (moves: EngineMove[], best?: number): EngineMove[] => {
+    const priority = (move: EngineMove) => {
+        if (moveKey(move) === best) return INFINITY;
+        let priority = 0;
+        if (move.captured) priority += 10 * VALUES[move.captured & 7] - VALUES[move.piece & 7] + 10000;
+        if (move.promotion) priority += VALUES[move.promotion & 7];
+        return priority;
+    };
+    return moves
+        .map(move => ({ move, priority: priority(move) }))
+        .sort((a, b) => b.priority - a.priority)
+        .map(({ move }) => move);
+};
+
+class Search {
+    private board: Board;
+    private table = new Map<number, TableEntry>();
+    private path: number[] = [];
+    private deadline: number;
+    nodes = 0;
+    canStop = false; /* the first search always finishes, so that there is a move to play */
+
+    constructor(private fen: string, movetime: number) {
+        this.board = new Board(fen);
+        this.deadline = Date.now() + movetime;
+    }
+
+    private checkTime() {
+        if (++this.nodes % 1024 === 0 && this.canStop && Date.now() > this.deadline) {
+            throw new SearchTimeout();
+        }
+    }
+
+    /* the static score for the side to move */
+    private evaluate(): number {
+        return this.board.black ? -this.board.score : this.board.score;
+    }
+
+    /* only captures and promotions are searched, so that the score isn't taken mid exchange */
+    private quiesce(alpha: number, beta: number): number {
+        this.checkTime();
+
+        const score = this.evaluate();
+        if (score >= beta) return score;
+        alpha = Math.max(alpha, score);
+
+        for (const move of order(this.board.moves(true))) {
+            if (!this.board.make(move)) continue;
+            const result = -this.quiesce(-beta, -alpha);
+            this.board.undo();
+
+            if (result >= beta) return result;
+            alpha = Math.max(alpha, result);
+        }
+        return alpha;
+    }
+
+    private negamax(depth: number, alpha: number, beta: number, ply: number): number {
+        this.checkTime();
+
+        const key = this.board.key();
+        if (this.board.halfMoves >= 100 || this.path.indexOf(key) >= 0) {
+            return 0;
+        }
+
+        const entry = this.table.get(key);
+        if (entry && entry.depth >= depth) {
+            // mates are stored as the distance from the stored position
+            const stored = Math.abs(entry.score) > MATE - 1000 ? entry.score - Math.sign(entry.score) * ply : entry.score;
+            if (entry.flag === 'exact') return stored;
+            if (entry.flag === 'lower' && stored >= beta) return stored;
+            if (entry.flag === 'upper' && stored <= alpha) return stored;
+        }
+
+        const inCheck = this.board.inCheck();
+        // positions in check are searched further, so that mates aren't missed
+        if (depth <= 0 && !inCheck) {
+            return this.quiesce(alpha, beta);
+        }
+
+        const start = alpha;
+        let best = -INFINITY;
+        let bestMove: number | undefined;
+        this.path.push(key);
+        try {
+            for (const move of order(this.board.moves(), entry?.move)) {
+                if (!this.board.make(move)) continue;
+                const result = -this.negamax(depth - 1, -beta, -alpha, ply + 1);
+                this.board.undo();
+
+                if (result > best) {
+                    best = result;
+                    bestMove = moveKey(move);
+                }
+                alpha = Math.max(alpha, result);
+                if (alpha >= beta) break;
+            }
+        } finally {
+            this.path.pop();
+        }
+
+        if (bestMove === undefined) {
+            return inCheck ? -MATE + ply : 0;
+        }
+
+        this.table.set(key, {
+            depth,
+            score: Math.abs(best) > MATE - 1000 ? best + Math.sign(best) * ply : best,
+            flag: best <= start ? 'upper' : best >= beta ? 'lower' : 'exact',
+            move: bestMove,
+        });
+        return best;
+    }
+
+    /*
+     * searches every root move, keeping the scores of moves within margin of the best
+     * so that a slightly worse move can be played instead, and of the best count moves
+     */
+    root(depth: number, margin: number, best?: EngineMove, count = 1): { move: EngineMove, score: number }[] {
+        const scored: { move: EngineMove, score: number }[] = [];
+        let alpha = -INFINITY;
+
+        this.path = [this.board.key()];
+        for (const move of order(this.board.moves(), best && moveKey(best))) {
+            if (!this.board.make(move)) continue;
+            let result: number;
+            try {
+                result = -this.negamax(depth - 1, -INFINITY, -alpha, 1);
+            } finally {
+                this.board.undo();
+            }
+
+            // only moves that beat alpha have an exact score
+            if (result > alpha) {
+                scored.push({ move, score: result });
+                scored.sort((a, b) => b.score - a.score);
+            }
+            const kept = scored.length >= count ? scored[count - 1].score : -INFINITY;
+            alpha = Math.max(alpha, Math.min(scored[0].score - margin, kept));
+        }
+
+        return scored.filter(({ score }, i) => i < count || score >= scored[0].score - margin);
+    }
+
+    /*
+     * the moves expected after first, following the best moves in the table until a position repeats.
+     * a search that ran out of time leaves its board part way through, so the line is played on a new one
+     */
+    line(first: EngineMove, length: number): string[] {
+        const board = new Board(this.fen);
+        const line = [toUci(first)];
+        const seen = [board.key()];
+        if (!board.make(first)) return line;
+
+        while (line.length < length && seen.indexOf(board.key()) < 0) {
+            seen.push(board.key());
+            const best = this.table.get(board.key())?.move;
+            const move = board.moves().find(move => moveKey(move) === best);
+            if (!move || !board.make(move)) break;
+            line.push(toUci(move));
+        }
+        return line;
+    }
+};
+
+/*
+ * chess960 castling rights are written with the files of the rooks (e.g. HFhf), which neither
+ * board understands, so they are dropped. standard rights are kept as they are
+ */
+const withoutChess960Castling = (fen: string): string => {
+    const [placement, turn, castling = '-', ...rest] = fen.split(/\s+/);
+    return /^(-|K?Q?k?q?)$/.test(castling) ? fen : [placement, turn, '-', ...rest].join(' ');
+};
+
+/*
+ * finds a move for the side to move, searching deeper until the time runs out.
+ * chess960 castling rights are dropped, so it never castles in chess960
+ */
+export const search = (fen: string, options: SearchOptions = {}): SearchResult => {
+    const position = withoutChess960Castling(fen);
+    const maxDepth = Math.min(options.depth ?? MAX_DEPTH, MAX_DEPTH);
+    const movetime = Math.min(options.movetime ?? (options.depth ? MAX_MOVETIME : DEFAULT_MOVETIME), MAX_MOVETIME);
+    const randomness = Math.min(Math.max(options.randomness ?? 0, 0), 1);
+    const margin = Math.round(randomness * 300);
+    const lines = Math.max(options.multipv ?? 1, 1);
+
+    const engine = new Search(position, movetime);
+    let candidates: { move: EngineMove, score: number }[] = [];
+    let depth = 0;
+
+    for (let next = 1; next <= maxDepth; next++) {
+        engine.canStop = next > 1;
+        try {
+            candidates = engine.root(next, margin, candidates[0]?.move, lines);
+            depth = next;
+        } catch (e) {
+            if (e instanceof SearchTimeout) break;
+            throw e;
+        }
+        // no need to look further once a forced mate has been found
+        if (candidates.length === 0 || Math.abs(candidates[0].score) > MATE - 1000) break;
+    }
+
+    if (candidates.length === 0) {
+        return { score: 0, pv: [], depth, nodes: engine.nodes, lines: [] };
+    }
+
+    const close = candidates.filter(({ score }) => score >= candidates[0].score - margin);
+    const chosen = Math.random() < randomness ?
+        close[Math.floor(Math.random() * close.length)] :
+        candidates[0];
+    const { from, to, promotion } = chosen.move;
+    const move = new Chess(position).move({
+        from: toSquare(from),
+        to: toSquare(to),
+        promotion: promotion ? TYPES[promotion & 7] : undefined,
+    });
+    const toLine = ({ move, score }: { move: EngineMove, score: number }): SearchLine => {
+        const plies = MATE - Math.abs(score);
+        return {
+            score,
+            mate: plies < 1000 ? Math.sign(score) * Math.ceil(plies / 2) : undefined,
+            pv: engine.line(move, Math.max(depth, 1)),
+        };
+    };
+    return {
+        move,
+        ...toLine(chosen),
+        depth,
+        nodes: engine.nodes,
+        lines: candidates.slice(0, lines).map(toLine),
+    };
+};
@@ -0,0 +1,37 @@
+import { SearchLine, SearchOptions, search } from "./engine";
+
+/* searches run here so that the page keeps responding while the engine thinks */
+
+export interface EngineRequest {
+    id: number;
+    fen: string;
+    options: SearchOptions;
+};
+
+export interface EngineResponse {
+    id: number;
+    from?: string;
+    to?: string;
+    promotion?: string;
+    error?: string;
+    time?: number; /* how long the search took, in ms */
+    score?: number; /* for the side to move */
+    mate?: number;
+    pv?: string[];
+    depth?: number;
+    lines?: SearchLine[];
+};
+
+self.onmessage = ({ data: { id, fen, options } }: MessageEvent<EngineRequest>) => {
+    let response: EngineResponse;
+    const started = Date.now();
+    try {
+        const { move, score, mate, pv, depth, lines } = search(fen, options);
+        response = move ?
+            { id, from: move.from, to: move.to, promotion: move.promotion, time: Date.now() - started, score, mate, pv, depth, lines } :
+            { id, error: 'there are no legal moves' };
+    } catch (e) {
+        response = { id, error: (e as Error).message };
+    }
+    self.postMessage(response);
+};
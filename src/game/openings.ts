@@ -0,0 +1,113 @@
+import { Move } from "chess.js";
+
+export interface Opening {
+    eco: string;
+    name: string;
+};
+
+/* well known openings by their moves, the longest match wins */
+const OPENINGS: [string, string, string][] = [
+    ['A00', 'Uncommon Opening', ''],
+    ['A01', 'Nimzo-Larsen Attack', 'b3'],
+    ['A02', "Bird's Opening", 'f4'],
+    ['A04', 'Réti Opening', 'Nf3'],
+    ['A06', 'Réti Opening', 'Nf3 d5'],
+    ['A10', 'English Opening', 'c4'],
+    ['A20', 'English Opening: King\'s English', 'c4 e5'],
+    ['A30', 'English Opening: Symmetrical', 'c4 c5'],
+    ['A40', "Queen's Pawn Game", 'd4'],
+    ['A45', 'Indian Defence', 'd4 Nf6'],
+    ['A46', "Indian Defence: Knights Variation", 'd4 Nf6 Nf3'],
+    ['A48', "London System", 'd4 Nf6 Nf3 g6 Bf4'],
+    ['A80', 'Dutch Defence', 'd4 f5'],
+    ['B00', "King's Pawn Game", 'e4'],
+    ['B01', 'Scandinavian Defence', 'e4 d5'],
+    ['B02', "Alekhine's Defence", 'e4 Nf6'],
+    ['B06', 'Modern Defence', 'e4 g6'],
+    ['B07', 'Pirc Defence', 'e4 d6 d4 Nf6'],
+    ['B10', 'Caro-Kann Defence', 'e4 c6'],
+    ['B12', 'Caro-Kann Defence: Advance Variation', 'e4 c6 d4 d5 e5'],
+    ['B13', 'Caro-Kann Defence: Exchange Variation', 'e4 c6 d4 d5 exd5 cxd5'],
+    ['B20', 'Sicilian Defence', 'e4 c5'],
+    ['B21', 'Sicilian Defence: Smith-Morra Gambit', 'e4 c5 d4 cxd4 c3'],
+    ['B22', 'Sicilian Defence: Alapin Variation', 'e4 c5 c3'],
+    ['B23', 'Sicilian Defence: Closed', 'e4 c5 Nc3'],
+    ['B27', 'Sicilian Defence', 'e4 c5 Nf3'],
+    ['B30', 'Sicilian Defence: Old Sicilian', 'e4 c5 Nf3 Nc6'],
+    ['B33', 'Sicilian Defence: Open', 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4'],
+    ['B40', 'Sicilian Defence: French Variation', 'e4 c5 Nf3 e6'],
+    ['B50', 'Sicilian Defence', 'e4 c5 Nf3 d6'],
+    ['B54', 'Sicilian Defence: Open', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4'],
+    ['B70', 'Sicilian Defence: Dragon Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6'],
+    ['B90', 'Sicilian Defence: Najdorf Variation', 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6'],
+    ['C00', 'French Defence', 'e4 e6'],
+    ['C02', 'French Defence: Advance Variation', 'e4 e6 d4 d5 e5'],
+    ['C01', 'French Defence: Exchange Variation', 'e4 e6 d4 d5 exd5'],
+    ['C03', 'French Defence: Tarrasch Variation', 'e4 e6 d4 d5 Nd2'],
+    ['C10', 'French Defence: Paulsen Variation', 'e4 e6 d4 d5 Nc3'],
+    ['C20', "King's Pawn Game", 'e4 e5'],
+    ['C23', "Bishop's Opening", 'e4 e5 Bc4'],
+    ['C25', 'Vienna Game', 'e4 e5 Nc3'],
+    ['C30', "King's Gambit", 'e4 e5 f4'],
+    ['C33', "King's Gambit Accepted", 'e4 e5 f4 exf4'],
+    ['C40', "King's Knight Opening", 'e4 e5 Nf3'],
+    ['C41', 'Philidor Defence', 'e4 e5 Nf3 d6'],
+    ['C42', 'Petrov\'s Defence', 'e4 e5 Nf3 Nf6'],
+    ['C44', "King's Knight Opening: Normal Variation", 'e4 e5 Nf3 Nc6'],
+    ['C44', 'Scotch Game', 'e4 e5 Nf3 Nc6 d4'],
+    ['C46', 'Four Knights Game', 'e4 e5 Nf3 Nc6 Nc3 Nf6'],
+    ['C50', 'Italian Game', 'e4 e5 Nf3 Nc6 Bc4'],
+    ['C50', 'Italian Game: Giuoco Piano', 'e4 e5 Nf3 Nc6 Bc4 Bc5'],
+    ['C51', 'Italian Game: Evans Gambit', 'e4 e5 Nf3 Nc6 Bc4 Bc5 b4'],
+    ['C54', 'Italian Game: Giuoco Pianissimo', 'e4 e5 Nf3 Nc6 Bc4 Bc5 c3'],
+    ['C55', 'Italian Game: Two Knights Defence', 'e4 e5 Nf3 Nc6 Bc4 Nf6'],
+    ['C57', 'Italian Game: Fried Liver Attack', 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7'],
+    ['C60', 'Ruy Lopez', 'e4 e5 Nf3 Nc6 Bb5'],
+    ['C65', 'Ruy Lopez: Berlin Defence', 'e4 e5 Nf3 Nc6 Bb5 Nf6'],
+    ['C68', 'Ruy Lopez: Exchange Variation', 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6'],
+    ['C70', 'Ruy Lopez: Morphy Defence', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4'],
+    ['C84', 'Ruy Lopez: Closed', 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Be7'],
+    ['D00', "Queen's Pawn Game", 'd4 d5'],
+    ['D02', 'London System', 'd4 d5 Nf3 Nf6 Bf4'],
+    ['D02', 'London System', 'd4 d5 Bf4'],
+    ['D06', "Queen's Gambit", 'd4 d5 c4'],
+    ['D07', "Queen's Gambit Declined: Chigorin Defence", 'd4 d5 c4 Nc6'],
+    ['D08', "Queen's Gambit Declined: Albin Countergambit", 'd4 d5 c4 e5'],
+    ['D10', 'Slav Defence', 'd4 d5 c4 c6'],
+    ['D20', "Queen's Gambit Accepted", 'd4 d5 c4 dxc4'],
+    ['D30', "Queen's Gambit Declined", 'd4 d5 c4 e6'],
+    ['D43', 'Semi-Slav Defence', 'd4 d5 c4 e6 Nc3 Nf6 Nf3 c6'],
+    ['D70', 'Grünfeld Defence', 'd4 Nf6 c4 g6 Nc3 d5'],
+    ['E00', 'Catalan Opening', 'd4 Nf6 c4 e6 g3'],
+    ['E12', "Queen's Indian Defence", 'd4 Nf6 c4 e6 Nf3 b6'],
+    ['E20', 'Nimzo-Indian Defence', 'd4 Nf6 c4 e6 Nc3 Bb4'],
+    ['E60', "King's Indian Defence", 'd4 Nf6 c4 g6'],
+    ['E61', "King's Indian Defence", 'd4 Nf6 c4 g6 Nc3 Bg7'],
+    ['A56', 'Benoni Defence', 'd4 Nf6 c4 c5'],
+    ['A57', 'Benko Gambit', 'd4 Nf6 c4 c5 d5 b5'],
+    ['A50', 'Indian Defence', 'd4 Nf6 c4'],
+];
+
+const clean = (san: string): string => san.replace(/[+#!?]+$/, '');
+
+/* the name of the opening played, from the moves of the main line */
+export const findOpening = (moves: Move[]): Opening | undefined => {
+    const played = moves.map(move => clean(move.san));
+
+    let best: [string, string, string] | undefined;
+    let bestLength = -1;
+    for (const opening of OPENINGS) {
+        const line = opening[2] === '' ? [] : opening[2].split(' ');
+        const matches = line.length <= played.length && line.every((san, i) => san === played[i]);
+        if (matches && line.length > bestLength) {
+            best = opening;
+            bestLength = line.length;
+        }
+    }
+
+    // an empty game hasn't got an opening yet
+    if (!best || played.length === 0) {
+        return undefined;
+    }
+    return { eco: best[0], name: best[1] };
+};
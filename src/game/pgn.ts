@@ -0,0 +1,339 @@
+import { Chess, Color, DEFAULT_POSITION, PieceSymbol, Square } from "chess.js";
+import { TimeControl } from "./clock";
+import { getCastlingMoves } from "./chess960";
+import { MoveNode, MoveTree, pathTo, updateNode } from "./tree";
+import { ChessState, CompleteFlag, DEFAULT_POSITIONS, GameResult, Players, chessFromState, chessReducer, createChessState, stepBack, stepForward } from "./state";
+
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const LINE_LENGTH = 80;
+
+interface PgnMove {
+    san: string;
+    clock?: number;
+    variations: PgnMove[][]; /* alternatives to this move */
+};
+
+export interface PgnGame {
+    tags: Record<string, string>;
+    moves: PgnMove[];
+};
+
+const escapeTag = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+const formatDate = (date: Date): string => {
+    const pad = (n: number) => `${n}`.padStart(2, '0');
+    return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+/* h:mm:ss as used by %clk */
+const formatClock = (seconds: number): string => {
+    const total = Math.max(0, Math.floor(seconds));
+    const pad = (n: number) => `${n}`.padStart(2, '0');
+    return `${Math.floor(total / 3600)}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+};
+
+const parseClock = (clock: string): number => {
+    return clock.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+/* the move number of a position, e.g. 12. for white or 12... for black */
+const moveNumber = (fen: string): string => {
+    const [, turn, , , , number] = fen.split(' ');
+    return turn === 'w' ? `${number}.` : `${number}...`;
+};
+
+/* a move with its number (always shown for white) and clock */
+const formatMove = (node: MoveNode, showNumber: boolean): string[] => {
+    const move = node.move!;
+    const tokens = showNumber || move.color === 'w' ?
+        [moveNumber(move.before), move.san] :
+        [move.san];
+    if (node.clock !== undefined) {
+        tokens.push(`{ [%clk ${formatClock(node.clock)}] }`);
+    }
+    return tokens;
+};
+
+/* movetext for the moves following a node, with its other children written as variations */
+const formatLine = (tree: MoveTree, from: string, showNumber: boolean = true): string[] => {
+    const tokens: string[] = [];
+    let node = tree.nodes[from];
+
+    while (node.children.length > 0) {
+        const [main, ...variations] = node.children.map(id => tree.nodes[id]);
+        tokens.push(...formatMove(main, showNumber));
+
+        // black's move number is repeated after a comment or variation
+        showNumber = main.clock !== undefined || variations.length > 0;
+        for (const variation of variations) {
+            const line = [
+                ...formatMove(variation, true),
+                ...formatLine(tree, variation.id, variation.clock !== undefined),
+            ];
+            tokens.push(`(${line.join(' ')})`);
+        }
+
+        node = main;
+    }
+    return tokens;
+};
+
+/* wraps movetext to the line length recommended by the PGN standard */
+const wrap = (text: string): string => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(' ')) {
+        if (line !== '' && line.length + word.length + 1 > LINE_LENGTH) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line === '' ? word : `${line} ${word}`;
+        }
+    }
+    return [...lines, line].join('\n');
+};
+
+/* the game as PGN, with variations and the clock after each move */
+export const exportPgn = (state: ChessState, date: Date = new Date()): string => {
+    const result = state.result ?? '*';
+    // the Seven Tag Roster comes first, in this order
+    const tags: Record<string, string> = {
+        Event: 'Casual game',
+        Site: 'react-chess',
+        Date: formatDate(date),
+        Round: '-',
+        White: state.players.w.name,
+        Black: state.players.b.name,
+        Result: result,
+        TimeControl: state.timeControl.increment > 0 ?
+            `${state.timeControl.base}+${state.timeControl.increment}` :
+            `${state.timeControl.base}`,
+    };
+
+    if (state.variant === 'chess960') {
+        tags.Variant = 'Chess960';
+    }
+    if (state.startFen !== DEFAULT_POSITION) {
+        tags.SetUp = '1';
+        tags.FEN = state.startFen;
+    }
+    if (state.complete?.[0] === CompleteFlag.OUT_OF_TIME) {
+        tags.Termination = 'time forfeit';
+    }
+
+    const header = Object.entries(tags)
+        .map(([key, value]) => `[${key} "${escapeTag(value)}"]`)
+        .join('\n');
+    const movetext = [...formatLine(state.tree, state.tree.root), result].join(' ');
+
+    return `${header}\n\n${wrap(movetext)}\n`;
+};
+
+/* the line and column of a position in the text, for error messages */
+const location = (text: string, index: number): string => {
+    const lines = text.slice(0, index).split('\n');
+    return `line ${lines.length}, column ${lines[lines.length - 1].length + 1}`;
+};
+
+/*
+ * reads the first game in a PGN file, without checking that the moves are legal.
+ * throws if the PGN can't be read
+ */
+export const parsePgn = (text: string): PgnGame => {
+    const tags: Record<string, string> = {};
+    const tagPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]\s*$/;
+
+    // tag pairs come first, one per line
+    const lines = text.replace(/\r/g, '').split('\n');
+    let first = 0;
+    for (; first < lines.length; first++) {
+        const line = lines[first];
+        if (line.trim() === '' || line.startsWith('%')) continue;
+        const match = tagPattern.exec(line);
+        if (!match) break;
+        tags[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    }
+
+    const movetext = lines.slice(first)
+        .filter(line => !line.startsWith('%'))
+        .join('\n');
+
+    // each line is the list of moves that a variation (or the main line) is made of
+    const root: PgnMove[] = [];
+    const stack: PgnMove[][] = [root];
+    const tokenPattern = /\s*(\{[^}]*\}?|;[^\n]*|\(|\)|\$\d+|\d+\.+|[^\s{}();$]+)/gy;
+
+    let match: RegExpExecArray | null;
+    let end = 0;
+    while ((match = tokenPattern.exec(movetext)) !== null) {
+        const token = match[1];
+        end = tokenPattern.lastIndex;
+        const line = stack[stack.length - 1];
+        const previous = line[line.length - 1];
+        const at = location(movetext, match.index + match[0].length - token.length);
+
+        if (token.startsWith('{')) {
+            if (!token.endsWith('}')) {
+                throw new Error(`invalid PGN: unterminated comment at ${at}`);
+            }
+            const clock = /\[%clk\s+([\d:.]+)\]/.exec(token);
+            if (clock && previous) {
+                previous.clock = parseClock(clock[1]);
+            }
+        } else if (token === '(') {
+            if (!previous) {
+                throw new Error(`invalid PGN: variation without a move at ${at}`);
+            }
+            const variation: PgnMove[] = [];
+            previous.variations.push(variation);
+            stack.push(variation);
+        } else if (token === ')') {
+            if (stack.length === 1) {
+                throw new Error(`invalid PGN: unexpected ')' at ${at}`);
+            }
+            stack.pop();
+        } else if (RESULTS.indexOf(token) >= 0) {
+            // the game termination marker ends the game
+            if (stack.length === 1) {
+                tags.Result = tags.Result ?? token;
+                end = movetext.length;
+                break;
+            }
+        } else if (!token.startsWith(';') && !token.startsWith('$') && !/^\d+\.+$/.test(token)) {
+            line.push({ san: token, variations: [] });
+        }
+    }
+
+    if (movetext.slice(end).trim() !== '') {
+        const at = end + movetext.slice(end).search(/\S/);
+        throw new Error(`invalid PGN: unexpected '${movetext[at]}' at ${location(movetext, at)}`);
+    }
+    if (stack.length > 1) {
+        throw new Error('invalid PGN: a variation is missing its closing bracket');
+    }
+
+    return { tags, moves: root };
+};
+
+/* the move written in SAN, allowing for missing or extra check marks and annotations */
+const resolveSan = (state: ChessState, chess: Chess, san: string): { from: Square, to: Square, promotion?: PieceSymbol } | undefined => {
+    const clean = (san: string) => san.replace(/[+#!?]+$/, '').replace(/0/g, 'O');
+    const wanted = clean(san);
+
+    if (state.variant === 'chess960' && /^O-O(-O)?$/.test(wanted)) {
+        const king = chess.board().flat().find(piece => piece?.type === 'k' && piece.color === chess.turn());
+        const castle = king && getCastlingMoves(chess, state.castlingRooks, king.square)
+            .find(move => move.flags === (wanted === 'O-O' ? 'k' : 'q'));
+        return king && castle ? { from: king.square, to: castle.to } : undefined;
+    }
+
+    return chess.moves({ verbose: true }).find(move => clean(move.san) === wanted);
+};
+
+const parseTimeControl = (tag: string | undefined, fallback: TimeControl): TimeControl => {
+    const match = /^(\d+)(?:\+(\d+))?$/.exec(tag ?? '');
+    if (!match) {
+        return fallback;
+    }
+    return {
+        ...fallback,
+        base: parseInt(match[1]),
+        increment: match[2] ? parseInt(match[2]) : 0,
+    };
+};
+
+/* how the game ended when the result isn't shown by the final position */
+const terminationFlag = (result: GameResult, termination: string = ''): string => {
+    if (/time/i.test(termination)) {
+        return CompleteFlag.OUT_OF_TIME;
+    }
+    return result === '1/2-1/2' ?
+        CompleteFlag.DRAW + CompleteFlag.AGREEMENT :
+        CompleteFlag.RESIGNATION;
+};
+
+/*
+ * creates a game from PGN, replaying the moves (and variations) so that piece uids
+ * match a game played on the board. throws if the PGN can't be read or a move is illegal
+ */
+export const importPgn = (text: string, timeControl: TimeControl, players: Players): ChessState => {
+    const { tags, moves } = parsePgn(text);
+    const variant = /960/.test(tags.Variant ?? '') ? 'chess960' : 'standard';
+    const named = (color: Color, name?: string) => ({
+        ...players[color],
+        name: name && name !== '?' ? name : players[color].name,
+    });
+    if (variant === 'chess960' && !tags.FEN) {
+        throw new Error('invalid PGN: a Chess960 game needs a FEN tag');
+    }
+
+    let state = createChessState(
+        parseTimeControl(tags.TimeControl, timeControl),
+        { w: named('w', tags.White), b: named('b', tags.Black) },
+        tags.FEN ?? DEFAULT_POSITIONS,
+        variant,
+    );
+
+    const play = (move: PgnMove) => {
+        const chess = chessFromState(state);
+        const number = moveNumber(chess.fen());
+        const resolved = resolveSan(state, chess, move.san);
+        if (!resolved) {
+            throw new Error(`invalid PGN: ${number} ${move.san} is not a legal move`);
+        }
+        state = stepForward(state, resolved.from, resolved.to, resolved.promotion);
+        if (move.clock !== undefined) {
+            state = { ...state, tree: updateNode(state.tree, state.tree.current, { clock: move.clock }) };
+        }
+    };
+    const takeBack = () => {
+        state = stepBack(state) ?? state;
+    };
+
+    // variations are played from the position before their move and taken back afterwards
+    const playLine = (line: PgnMove[], isVariation: boolean) => {
+        for (const move of line) {
+            play(move);
+            if (move.variations.length > 0) {
+                takeBack();
+                for (const variation of move.variations) {
+                    playLine(variation, true);
+                }
+                play(move);
+            }
+        }
+        if (isVariation) {
+            line.forEach(takeBack);
+        }
+    };
+    playLine(moves, false);
+
+    const replayed = chessReducer(state, {
+        type: 'endMove',
+        time: new Date().getTime(),
+        moved: false,
+    });
+
+    // clocks are left stopped, and start once the next move is made
+    const clocks: Record<Color, number> = { w: replayed.timers.w.time, b: replayed.timers.b.time };
+    for (const id of pathTo(replayed.tree, replayed.tree.current)) {
+        const { move, clock } = replayed.tree.nodes[id];
+        if (move && clock !== undefined) {
+            clocks[move.color] = clock;
+        }
+    }
+    const timers = { w: { time: clocks.w }, b: { time: clocks.b } };
+
+    const result = tags.Result as GameResult;
+    if (!replayed.complete && RESULTS.slice(0, 3).indexOf(result) >= 0) {
+        return {
+            ...replayed,
+            timers,
+            complete: terminationFlag(result, tags.Termination),
+            result,
+        };
+    }
+
+    return { ...replayed, timers };
+};
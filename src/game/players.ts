@@ -0,0 +1,95 @@
+import { Move, PieceSymbol, Square } from "chess.js";
+import { ChessState } from "./state";
+import { PlayerController, PlayerTurn } from "./session";
+
+export interface PlayerMove {
+    from: Square;
+    to: Square;
+    promotion?: PieceSymbol;
+    time?: number; /* how long a bot thought, in ms, when its engine says */
+    ponder?: string; /* the reply a bot expects, in UCI notation */
+};
+
+/* moves come from the board, through the session */
+export class LocalPlayer implements PlayerController {
+    readonly type = 'local';
+
+    onTurn(): void {
+        // nothing to do, the player moves when they're ready
+    }
+};
+
+/* what a bot is given along with the position */
+export interface BotMoveContext {
+    signal: AbortSignal; /* aborted once the move isn't wanted any more */
+    status: (status: string) => void; /* e.g. to say that it is trying again */
+};
+
+/* asks an engine for a move whenever it is this side's turn */
+export class BotPlayer implements PlayerController {
+    readonly type = 'bot';
+
+    constructor(private getMove: (state: ChessState, context: BotMoveContext) => Promise<PlayerMove>) {
+    }
+
+    onTurn(turn: PlayerTurn): void {
+        turn.thinking(true);
+        this.getMove(turn.state, { signal: turn.signal, status: status => turn.thinking(true, status) })
+            .then(({ from, to, promotion }) => {
+                if (!turn.isActive()) return;
+                turn.thinking(false);
+                if (!turn.move(from, to, promotion)) {
+                    turn.error(`Bot tried an illegal move from ${from} to ${to}`);
+                }
+            })
+            .catch((error: Error) => {
+                // a cancelled request has nothing to report
+                if (!turn.isActive()) return;
+                turn.thinking(false);
+                turn.error(error.message);
+            });
+    }
+};
+
+/* how moves are sent to and received from a player somewhere else */
+export interface RemoteTransport {
+    send: (move: PlayerMove) => void;
+    /* returns a function that stops listening */
+    subscribe: (listener: (move: PlayerMove) => void) => () => void;
+};
+
+/*
+ * a player on another device, moves made here are sent to them and
+ * their moves are played when they arrive (if it is their turn)
+ */
+export class RemotePlayer implements PlayerController {
+    readonly type = 'remote';
+    private turn?: PlayerTurn;
+    private unsubscribe: () => void;
+
+    constructor(private transport: RemoteTransport) {
+        this.unsubscribe = transport.subscribe(move => this.receive(move));
+    }
+
+    onTurn(turn: PlayerTurn): void {
+        this.turn = turn;
+    }
+
+    onOpponentMove(move: Move): void {
+        this.transport.send({ from: move.from, to: move.to, promotion: move.promotion });
+    }
+
+    dispose(): void {
+        this.unsubscribe();
+    }
+
+    private receive({ from, to, promotion }: PlayerMove) {
+        if (!this.turn?.isActive()) {
+            console.error('received a move from a remote player when it was not their turn');
+            return;
+        }
+        if (!this.turn.move(from, to, promotion)) {
+            this.turn.error(`remote player tried an illegal move from ${from} to ${to}`);
+        }
+    }
+};
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Color, Move } from "chess.js";
+import { GameSession } from "./session";
+import { BotPlayer, LocalPlayer, PlayerMove } from "./players";
+import { ChessState, CompleteFlag, Players, createChessState } from "./state";
+
+const players: Players = {
+    w: { name: 'white', type: 'local' },
+    b: { name: 'black', type: 'bot' },
+};
+
+/* a bot that plays its moves in order, whatever the position */
+const scriptedBot = (moves: PlayerMove[]) => {
+    const asked: ChessState[] = [];
+    const bot = new BotPlayer(async state => {
+        asked.push(state);
+        const move = moves[asked.length - 1];
+        if (!move) throw new Error('out of moves');
+        return move;
+    });
+    return { bot, asked };
+};
+
+/* resolves with the next move played in the session */
+const nextMove = (session: GameSession): Promise<Move> => new Promise(resolve => {
+    const off = session.on('move', ({ move }) => {
+        off();
+        resolve(move);
+    });
+});
+
+const START = 1_000_000;
+
+describe('GameSession', () => {
+    let session: GameSession | undefined;
+    // the time in ms, which the clocks read instead of the real time
+    let now = START;
+    const create = (controllers: Record<Color, LocalPlayer | BotPlayer>, base = 60) => {
+        now = START;
+        const state = createChessState({ base, increment: 0, delay: 0, delayMode: 'none' }, players);
+        session = new GameSession(state, controllers, { now: () => now, tickInterval: 100 });
+        return session;
+    };
+
+    afterEach(() => {
+        session?.dispose();
+        session = undefined;
+        vi.useRealTimers();
+    });
+
+    it('asks the bot to reply to a local move', async () => {
+        const { bot, asked } = scriptedBot([{ from: 'e7', to: 'e5' }]);
+        const session = create({ w: new LocalPlayer(), b: bot });
+        const thinking: boolean[] = [];
+        session.on('botThinking', event => thinking.push(event.thinking));
+        session.start();
+
+        expect(session.move('e2', 'e4')).toBe(true);
+        const reply = await nextMove(session);
+
+        expect(reply.san).toBe('e5');
+        expect(asked).toHaveLength(1);
+        expect(thinking).toEqual([true, false]);
+        expect(session.getState().turn).toBe('w');
+    });
+
+    it('ignores illegal moves and moves out of turn', () => {
+        const session = create({ w: new LocalPlayer(), b: new LocalPlayer() });
+        session.start();
+
+        expect(session.move('e2', 'e5')).toBe(false);
+        expect(session.move('e7', 'e5')).toBe(false);
+        expect(session.getState().moves).toHaveLength(0);
+    });
+
+    it('undoes moves, cancelling a bot that is still thinking', () => {
+        let signal: AbortSignal | undefined;
+        const bot = new BotPlayer((_, context) => {
+            signal = context.signal;
+            return new Promise(() => undefined);
+        });
+        const session = create({ w: new LocalPlayer(), b: bot });
+        session.start();
+
+        session.move('e2', 'e4');
+        expect(signal?.aborted).toBe(false);
+
+        expect(session.undo()).toBe(true);
+        expect(signal?.aborted).toBe(true);
+        expect(session.getState().turn).toBe('w');
+        expect(session.getState().moves).toHaveLength(0);
+        expect(session.undo()).toBe(false);
+    });
+
+    it('waits to ask the bot again while an undone move can be replayed', async () => {
+        const { bot, asked } = scriptedBot([{ from: 'e7', to: 'e5' }, { from: 'd7', to: 'd5' }]);
+        const session = create({ w: new LocalPlayer(), b: bot });
+        session.start();
+
+        session.move('e2', 'e4');
+        await nextMove(session);
+        session.undo();
+        expect(session.getState().turn).toBe('b');
+        expect(asked).toHaveLength(1);
+
+        session.undo();
+        session.move('d2', 'd4');
+        const reply = await nextMove(session);
+        expect(reply.san).toBe('d5');
+        expect(asked).toHaveLength(2);
+    });
+
+    it('ends the game when a clock runs out', () => {
+        vi.useFakeTimers();
+        const session = create({ w: new LocalPlayer(), b: new LocalPlayer() }, 1);
+        const over = vi.fn();
+        session.on('gameOver', over);
+        session.start();
+
+        session.move('e2', 'e4');
+        now = START + 500;
+        vi.advanceTimersByTime(100);
+        expect(over).not.toHaveBeenCalled();
+
+        now = START + 1500;
+        vi.advanceTimersByTime(100);
+        expect(over).toHaveBeenCalledTimes(1);
+        const { complete, result } = over.mock.calls[0][0];
+        expect(complete).toContain(CompleteFlag.OUT_OF_TIME);
+        expect(result).toBe('1-0');
+        expect(session.move('e7', 'e5')).toBe(false);
+    });
+
+    it('ends the game when the bot checkmates', async () => {
+        const { bot, asked } = scriptedBot([{ from: 'e7', to: 'e5' }, { from: 'd8', to: 'h4' }]);
+        const session = create({ w: new LocalPlayer(), b: bot });
+        const over = vi.fn();
+        session.on('gameOver', over);
+        session.start();
+
+        session.move('f2', 'f3');
+        await nextMove(session);
+        session.move('g2', 'g4');
+        const mate = await nextMove(session);
+
+        expect(mate.san).toBe('Qh4#');
+        expect(over).toHaveBeenCalledTimes(1);
+        const { complete, result } = over.mock.calls[0][0];
+        expect(complete).toContain(CompleteFlag.CHECKMATE);
+        expect(result).toBe('0-1');
+        expect(session.getState().complete).toBeTruthy();
+        expect(asked).toHaveLength(2);
+    });
+});
@@ -0,0 +1,318 @@
+import { Color, Move, PieceSymbol, Square } from "chess.js";
+import { chargeTime } from "./clock";
+import { getCastlingMoves } from "./chess960";
+import { ChessAction, ChessState, GameResult, chessFromState, chessReducer } from "./state";
+
+type Listener<T> = (payload: T) => void;
+
+/* a minimal typed event emitter, on returns a function that removes the listener */
+export class EventEmitter<Events> {
+    private listeners: { [E in keyof Events]?: Listener<Events[E]>[] } = {};
+
+    on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+        this.listeners[event] = [...this.listeners[event] ?? [], listener];
+        return () => this.off(event, listener);
+    }
+
+    off<E extends keyof Events>(event: E, listener: Listener<Events[E]>): void {
+        this.listeners[event] = (this.listeners[event] ?? []).filter(l => l !== listener);
+    }
+
+    emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+        for (const listener of this.listeners[event] ?? []) {
+            listener(payload);
+        }
+    }
+
+    clear(): void {
+        this.listeners = {};
+    }
+};
+
+export interface GameSessionEvents {
+    change: ChessState; /* after every transition */
+    action: { action: ChessAction, state: ChessState }; /* every action dispatched, even if it changed nothing */
+    move: { move: Move, state: ChessState };
+    check: { color: Color, state: ChessState };
+    gameOver: { complete: string, result?: GameResult, state: ChessState };
+    clockTick: { remaining: Record<Color, number>, turn: Color };
+    botThinking: { color: Color, thinking: boolean, status?: string }; /* status says what it is doing, e.g. retrying */
+    error: { color: Color, message: string };
+};
+
+/* what a player controller is given when it is its turn to move */
+export interface PlayerTurn {
+    color: Color;
+    state: ChessState;
+    /* false once the turn is over, e.g. after a takeback, a pause or the game ending */
+    isActive: () => boolean;
+    /* aborted when the turn is over, to cancel anything started for it */
+    signal: AbortSignal;
+    move: (from: Square, to: Square, promotion?: PieceSymbol) => boolean;
+    thinking: (thinking: boolean, status?: string) => void;
+    error: (message: string) => void;
+};
+
+/*
+ * decides the moves for one side. local players move through the session
+ * directly (from the board), others are told when it is their turn
+ */
+export interface PlayerController {
+    readonly type: 'local' | 'bot' | 'remote';
+    onTurn: (turn: PlayerTurn) => void;
+    /* the other side has moved, e.g. to pass it on to a remote opponent */
+    onOpponentMove?: (move: Move, state: ChessState) => void;
+    dispose?: () => void;
+};
+
+export interface GameSessionOptions {
+    now?: () => number;
+    /* how often clockTick is emitted (and timers checked) once started, in ms */
+    tickInterval?: number;
+};
+
+/*
+ * runs a game around chessReducer without any UI: tells the players when it is their
+ * turn, keeps the clocks ticking and emits events for anything that happens
+ */
+export class GameSession {
+    private state: ChessState;
+    private controllers: Record<Color, PlayerController>;
+    private events = new EventEmitter<GameSessionEvents>();
+    private now: () => number;
+    private tickInterval: number;
+    private ticker?: ReturnType<typeof setInterval>;
+
+    // every change of turn bumps the generation, so that stale turns can't move
+    private generation = 0;
+    private turnAbort?: AbortController;
+    private turnKey = '';
+    private thinking?: Color;
+    private started = false;
+    private disposed = false;
+
+    constructor(state: ChessState, controllers: Record<Color, PlayerController>, options: GameSessionOptions = {}) {
+        this.state = state;
+        this.controllers = controllers;
+        this.now = options.now ?? (() => new Date().getTime());
+        this.tickInterval = options.tickInterval ?? 250;
+    }
+
+    getState(): ChessState {
+        return this.state;
+    }
+
+    getController(color: Color): PlayerController {
+        return this.controllers[color];
+    }
+
+    on<E extends keyof GameSessionEvents>(event: E, listener: Listener<GameSessionEvents[E]>): () => void {
+        return this.events.on(event, listener);
+    }
+
+    off<E extends keyof GameSessionEvents>(event: E, listener: Listener<GameSessionEvents[E]>): void {
+        this.events.off(event, listener);
+    }
+
+    /* starts the clock ticking and asks the player to move if it's their turn */
+    start(): void {
+        if (this.started || this.disposed) return;
+        this.started = true;
+        this.ticker = setInterval(() => this.tick(), this.tickInterval);
+        this.updateTurn();
+    }
+
+    dispose(): void {
+        if (this.disposed) return;
+        this.disposed = true;
+        this.endTurn();
+        clearInterval(this.ticker);
+        this.controllers.w.dispose?.();
+        if (this.controllers.b !== this.controllers.w) {
+            this.controllers.b.dispose?.();
+        }
+        this.events.clear();
+    }
+
+    /* legal moves for the piece on a square, including chess960 castling (as the king moving onto its rook) */
+    legalMoves(square: Square): { to: Square, flags: string }[] {
+        const chess = chessFromState(this.state);
+        const moves: { to: Square, flags: string }[] = chess.moves({ square, verbose: true });
+        if (this.state.variant === 'chess960') {
+            return [...moves, ...getCastlingMoves(chess, this.state.castlingRooks, square)];
+        }
+        return moves;
+    }
+
+    /* seconds left on each clock right now */
+    remaining(): Record<Color, number> {
+        const now = this.now();
+        const left = (color: Color) => {
+            const { set, time } = this.state.timers[color];
+            return set ? time - chargeTime(this.state.timeControl, (now - set) / 1000) : time;
+        };
+        return { w: left('w'), b: left('b') };
+    }
+
+    /* returns false if the move wasn't played, e.g. because it is illegal */
+    move(from: Square, to: Square, promotion?: PieceSymbol): boolean {
+        const current = this.state.tree.current;
+        this.dispatch({ type: 'move', from, to, promotion, time: this.now() });
+        return this.state.tree.current !== current;
+    }
+
+    undo(): boolean {
+        return this.dispatch({ type: 'undo', time: this.now() });
+    }
+
+    redo(): boolean {
+        return this.dispatch({ type: 'redo', time: this.now() });
+    }
+
+    goto(node: string): boolean {
+        return this.dispatch({ type: 'goto', node, time: this.now() });
+    }
+
+    promoteVariation(node: string): boolean {
+        return this.dispatch({ type: 'promoteVariation', node });
+    }
+
+    deleteVariation(node: string): boolean {
+        return this.dispatch({ type: 'deleteVariation', node, time: this.now() });
+    }
+
+    pause(): boolean {
+        return this.dispatch({ type: 'pause', time: this.now() });
+    }
+
+    resign(color: Color): boolean {
+        return this.dispatch({ type: 'resign', color, time: this.now() });
+    }
+
+    offerDraw(color: Color): boolean {
+        return this.dispatch({ type: 'offerDraw', color, time: this.now() });
+    }
+
+    answerDraw(color: Color, accept: boolean): boolean {
+        return this.dispatch(accept ?
+            { type: 'acceptDraw', color, time: this.now() } :
+            { type: 'declineDraw', color });
+    }
+
+    checkTimers(): boolean {
+        return this.dispatch({ type: 'checkTimers', time: this.now() });
+    }
+
+    /* counts a hint shown to a player, the hint itself comes from whoever is asked */
+    hint(color: Color): boolean {
+        return this.dispatch({ type: 'hint', color });
+    }
+
+    /* stops a bot (or remote player) from moving, it waits until retryTurn or the position changes */
+    cancelTurn(): boolean {
+        if (!this.started || this.disposed || this.controllers[this.state.turn].type === 'local') return false;
+
+        this.endTurn();
+        return true;
+    }
+
+    /* asks the player whose turn it is to move again, e.g. after their last attempt failed */
+    retryTurn(): boolean {
+        if (!this.started || this.disposed || this.controllers[this.state.turn].type === 'local') return false;
+
+        this.turnKey = '';
+        this.updateTurn();
+        return true;
+    }
+
+    /* applies an action, returning false if it changed nothing */
+    private dispatch(action: ChessAction): boolean {
+        if (this.disposed) return false;
+
+        const previous = this.state;
+        const { current } = previous.tree;
+        const { complete } = previous;
+        const next = chessReducer(previous, action);
+        this.events.emit('action', { action, state: next });
+        if (next === previous) {
+            return false;
+        }
+        this.state = next;
+        this.events.emit('change', next);
+
+        const moved = action.type === 'move' || action.type === 'redo';
+        const node = next.tree.nodes[next.tree.current];
+        if (moved && next.tree.current !== current && node.move) {
+            this.events.emit('move', { move: node.move, state: next });
+
+            const opponent = this.controllers[node.move.color === 'w' ? 'b' : 'w'];
+            opponent.onOpponentMove?.(node.move, next);
+        }
+        if (next.tree.current !== current && next.check[next.turn]) {
+            this.events.emit('check', { color: next.turn, state: next });
+        }
+        if (!complete && next.complete) {
+            this.events.emit('gameOver', { complete: next.complete, result: next.result, state: next });
+        }
+
+        this.updateTurn();
+        return true;
+    }
+
+    private tick() {
+        const remaining = this.remaining();
+        this.events.emit('clockTick', { remaining, turn: this.state.turn });
+
+        const running = this.state.timers.w.set ? 'w' : this.state.timers.b.set ? 'b' : undefined;
+        if (running && remaining[running] <= 0) {
+            this.checkTimers();
+        }
+    }
+
+    private endTurn() {
+        this.generation++;
+        this.turnAbort?.abort();
+        this.turnAbort = undefined;
+        if (this.thinking) {
+            this.events.emit('botThinking', { color: this.thinking, thinking: false });
+            this.thinking = undefined;
+        }
+    }
+
+    /* tells the player to move when the turn changes, and cancels the last turn */
+    private updateTurn() {
+        if (!this.started || this.disposed) return;
+
+        const { state } = this;
+        const key = `${state.tree.current}:${state.paused}:${state.complete ?? ''}`;
+        if (key === this.turnKey) return;
+        this.turnKey = key;
+        this.endTurn();
+
+        // the player waits while moves that were taken back can still be replayed
+        const atLatestMove = state.tree.nodes[state.tree.current].children.length === 0;
+        if (state.complete || state.paused || !atLatestMove) return;
+
+        const generation = this.generation;
+        const color = state.turn;
+        this.turnAbort = new AbortController();
+        const isActive = () => generation === this.generation && !this.disposed;
+
+        this.controllers[color].onTurn({
+            color,
+            state,
+            isActive,
+            signal: this.turnAbort.signal,
+            move: (from, to, promotion) => isActive() && this.move(from, to, promotion),
+            thinking: (thinking, status) => {
+                if (!isActive()) return;
+                this.thinking = thinking ? color : undefined;
+                this.events.emit('botThinking', { color, thinking, status });
+            },
+            error: (message) => {
+                if (!isActive()) return;
+                this.events.emit('error', { color, message });
+            },
+        });
+    }
+};
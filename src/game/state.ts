@@ -1,4 +1,7 @@
-import { Chess, Color, Move, PieceSymbol, Square } from "chess.js";
+import { Chess, Color, DEFAULT_POSITION, Move, PieceSymbol, Square, validateFen } from "chess.js";
+import { TimeControl, chargeTime, creditTime } from "./clock";
+import { CastlingRooks, Variant, getCastlingSquares, makeCastle, parse960Fen, to960Fen, updateCastlingRooks } from "./chess960";
+import { MoveTree, MoveUID, addNode, commonAncestor, createTree, deleteVariation, findChild, isDescendant, pathTo, promoteVariation, updateNode } from "./tree";
 
 /* helpers */
 type Board = ({ type: PieceSymbol, team: Color, uid: string } | null)[][];
@@ -21,25 +24,73 @@ export enum CompleteFlag {
     THREEFOLD_REPITITION = 'r',
     INSUFFICIENT_MATERIAL = 'm',
     OUT_OF_TIME = 't',
+    STALEMATE = 's',
+    FIFTY_MOVES = 'f', /* claimed after 50 moves, automatic after 75 */
+    FIVEFOLD_REPETITION = 'v',
+    RESIGNATION = 'g',
+    AGREEMENT = 'a',
 };
 
-const getCompleteFlag = (chess: Chess, outOfTime: boolean = false): string | undefined => {
+export type GameResult = '1-0' | '0-1' | '1/2-1/2';
+
+/* positions are the same if the pieces, side to move, castling and en passant all match */
+const positionKey = (fen: string): string => fen.split(' ').slice(0, 4).join(' ');
+
+/* how many times the current position has occurred, including now */
+const countRepetitions = (chess: Chess, moves: Move[]): number => {
+    const current = positionKey(chess.fen());
+    return moves
+        .map(move => positionKey(move.before))
+        .filter(key => key === current)
+        .length + 1;
+};
+
+const halfMoveClock = (chess: Chess): number => parseInt(chess.fen().split(' ')[4]);
+
+/* a draw that either player may claim, but which doesn't end the game automatically */
+const getClaimableDraw = (chess: Chess, moves: Move[]): string | undefined => {
+    if (countRepetitions(chess, moves) >= 3) {
+        return CompleteFlag.DRAW + CompleteFlag.THREEFOLD_REPITITION;
+    }
+    if (halfMoveClock(chess) >= 100) {
+        return CompleteFlag.DRAW + CompleteFlag.FIFTY_MOVES;
+    }
+    return undefined;
+};
+
+/*
+ * whether a colour could possibly checkmate with its remaining pieces,
+ * a lone king or king and a single minor piece cannot
+ */
+const hasMatingMaterial = (chess: Chess, color: Color): boolean => {
+    const pieces = chess.board().flat().filter(piece => piece?.color === color && piece.type !== 'k');
+    if (pieces.some(piece => piece?.type === 'p' || piece?.type === 'r' || piece?.type === 'q')) {
+        return true;
+    }
+    return pieces.length >= 2;
+};
+
+const getCompleteFlag = (chess: Chess, moves: Move[] = [], outOfTime: boolean = false): string | undefined => {
     let result = '';
 
     if (outOfTime) {
         result += CompleteFlag.OUT_OF_TIME;
+        // running out of time is only a loss if the opponent could still checkmate
+        if (!hasMatingMaterial(chess, chess.turn() === 'w' ? 'b' : 'w')) {
+            result += CompleteFlag.DRAW + CompleteFlag.INSUFFICIENT_MATERIAL;
+        }
+        return result;
     }
     if (chess.isCheckmate()) {
         result += CompleteFlag.CHECKMATE;
-    }
-    if (chess.isDraw()) {
-        result += CompleteFlag.DRAW;
-    }
-    if (chess.isInsufficientMaterial()) {
-        result += CompleteFlag.INSUFFICIENT_MATERIAL;
-    }
-    if (chess.isThreefoldRepetition()) {
-        result += CompleteFlag.THREEFOLD_REPITITION;
+    } else if (chess.isStalemate()) {
+        result += CompleteFlag.DRAW + CompleteFlag.STALEMATE;
+    } else if (chess.isInsufficientMaterial()) {
+        result += CompleteFlag.DRAW + CompleteFlag.INSUFFICIENT_MATERIAL;
+    } else if (countRepetitions(chess, moves) >= 5) {
+        result += CompleteFlag.DRAW + CompleteFlag.FIVEFOLD_REPETITION;
+    } else if (halfMoveClock(chess) >= 150) {
+        result += CompleteFlag.DRAW + CompleteFlag.FIFTY_MOVES;
     }
 
     if (result.length === 0) {
@@ -49,77 +100,483 @@ const getCompleteFlag = (chess: Chess, outOfTime: boolean = false): string | und
     return result;
 }
 
+/* the result of a finished game, loser is only used for decisive results */
+const getResult = (complete: string, loser: Color): GameResult => {
+    if (complete.indexOf(CompleteFlag.DRAW) >= 0) {
+        return '1/2-1/2';
+    }
+    return loser === 'w' ? '0-1' : '1-0';
+};
+
 type Captured = Record<Color, PieceSymbol[]>;
+
+export const DEFAULT_POSITIONS = 'default';
+
+/*
+ * loads either the default position or a FEN, throwing an error
+ * describing why the position can't be played if it is illegal
+ */
+export const loadPosition = (positions: string): Chess => {
+    let fen = positions === DEFAULT_POSITIONS ? DEFAULT_POSITION : positions.trim();
+
+    // fill in commonly omitted fields, as chess.js does when loading
+    const tokens = fen.split(/\s+/);
+    if (tokens.length >= 2 && tokens.length < 6) {
+        fen = [...tokens, ...['-', '-', '0', '1'].slice(tokens.length - 2)].join(' ');
+    }
+
+    const { ok, error } = validateFen(fen);
+    if (!ok) {
+        throw new Error(error?.replace('Invalid FEN', 'illegal position') ?? 'illegal position');
+    }
+
+    const chess = new Chess(fen);
+    const board = chess.board();
+
+    if ([...board[0], ...board[7]].some(piece => piece?.type === 'p')) {
+        throw new Error('illegal position: pawns cannot be on the first or last rank');
+    }
+
+    // castling rights need the king and rook to be on their starting squares
+    const castling = fen.split(/\s+/)[2];
+    const rights: [string, Square, Square, Color][] = [
+        ['K', 'e1', 'h1', 'w'], ['Q', 'e1', 'a1', 'w'],
+        ['k', 'e8', 'h8', 'b'], ['q', 'e8', 'a8', 'b'],
+    ];
+    for (const [flag, king, rook, color] of rights) {
+        if (castling.indexOf(flag) < 0) continue;
+        const k = chess.get(king);
+        const r = chess.get(rook);
+        if (k?.type !== 'k' || k.color !== color || r?.type !== 'r' || r.color !== color) {
+            throw new Error(`illegal position: castling right '${flag}' needs a king on ${king} and a rook on ${rook}`);
+        }
+    }
+
+    // an en passant square needs the pawn that just made a double step
+    const enPassant = fen.split(/\s+/)[3];
+    if (enPassant !== '-') {
+        const forward = chess.turn() === 'w' ? -1 : 1;
+        const rank = parseInt(enPassant[1]);
+        const pawn = chess.get(`${enPassant[0]}${rank + forward}` as Square);
+        const empty = [enPassant, `${enPassant[0]}${rank - forward}`]
+            .every(square => !chess.get(square as Square));
+        if (pawn?.type !== 'p' || pawn.color === chess.turn() || !empty) {
+            throw new Error(`illegal position: no pawn could have just moved past ${enPassant}`);
+        }
+    }
+
+    // the side that just moved can't have left its king in check
+    const waiting = chess.turn() === 'w' ? 'b' : 'w';
+    const kingSquare = board.flat().find(piece => piece?.type === 'k' && piece.color === waiting)?.square;
+    if (kingSquare && chess.isAttacked(kingSquare, chess.turn())) {
+        throw new Error(`illegal position: ${waiting === 'w' ? 'white' : 'black'} is in check but it is not their turn`);
+    }
+
+    return chess;
+};
+
+/*
+ * works out which pieces have been taken by comparing against a full set,
+ * treating extra pieces as promoted pawns
+ */
+const getMissingMaterial = (chess: Chess): Captured => {
+    const full: [PieceSymbol, number][] = [['q', 1], ['r', 2], ['b', 2], ['n', 2]];
+    const captured: Captured = { w: [], b: [] };
+
+    for (const color of ['w', 'b'] as Color[]) {
+        const pieces = chess.board().flat().filter(piece => piece?.color === color);
+        const count = (type: PieceSymbol) => pieces.filter(piece => piece?.type === type).length;
+
+        const promoted = full
+            .reduce((total, [type, amount]) => total + Math.max(0, count(type) - amount), 0);
+        const taken: PieceSymbol[] = [];
+        for (let i = count('p') + promoted; i < 8; i++) {
+            taken.push('p');
+        }
+        for (const [type, amount] of full) {
+            for (let i = count(type); i < amount; i++) {
+                taken.push(type);
+            }
+        }
+
+        // pieces lost by one colour are the pieces captured by the other
+        captured[color === 'w' ? 'b' : 'w'] = taken;
+    }
+
+    return captured;
+};
 type Timers = Record<Color, { set?: number, time: number }>;
-type MoveUID = { taken?: string };
-type Players = Record<Color, {
+export type Players = Record<Color, {
     name: string,
     type: 'local' | 'bot',
+    level?: number, /* how strongly a bot plays, see BOT_LEVELS */
 }>;
 
+/* why a game ended, e.g. "BLACK is checkmated" (turn is the side to move at the end) */
+export const describeComplete = (complete: string, result: GameResult | undefined, players: Players, turn: Color): string => {
+    const has = (flag: CompleteFlag) => complete.indexOf(flag) >= 0;
+    const player = players[turn].name;
+    const opponent = players[turn === 'w' ? 'b' : 'w'].name;
+
+    if (has(CompleteFlag.CHECKMATE)) {
+        return player + ' is checkmated';
+    } else if (has(CompleteFlag.RESIGNATION)) {
+        return (result === '1-0' ? players.b.name : players.w.name) + ' resigned';
+    } else if (has(CompleteFlag.OUT_OF_TIME)) {
+        return has(CompleteFlag.DRAW) ?
+            `${player} ran out of time, but ${opponent} cannot checkmate` :
+            player + ' ran out of time';
+    } else if (has(CompleteFlag.STALEMATE)) {
+        return player + ' is stalemated';
+    } else if (has(CompleteFlag.INSUFFICIENT_MATERIAL)) {
+        return 'neither player can checkmate';
+    } else if (has(CompleteFlag.FIVEFOLD_REPETITION)) {
+        return 'fivefold repetition';
+    } else if (has(CompleteFlag.THREEFOLD_REPITITION)) {
+        return 'threefold repetition';
+    } else if (has(CompleteFlag.FIFTY_MOVES)) {
+        return 'fifty move rule';
+    } else if (has(CompleteFlag.AGREEMENT)) {
+        return 'draw agreed';
+    } else if (has(CompleteFlag.DRAW)) {
+        return 'draw';
+    }
+
+    return 'invalid reason';
+};
+
 interface CommonState {
     timers: Timers;
-    moves?: Move[];
+    moves?: Move[]; /* the line leading to the current position in the tree */
     captured: Captured;
     board: Board;
     turn: Color;
     check: Record<Color, boolean>;
     fen: string;
     complete?: string;
+    result?: GameResult;
 };
 
 /*
  * state for chess game (not synced)
  */
 export interface ChessState extends CommonState {
-    redoStack: Move[];
+    startFen: string;
+    tree: MoveTree;
     pieceUids: Record<string, string>;
-    pieceUidTracker: MoveUID[];
     paused: boolean;
     players: Players;
+    timeControl: TimeControl;
+    variant: Variant;
+    castlingRooks: CastlingRooks;
+    drawOffer?: Color;
+    claimableDraw?: string;
+    hints?: Record<Color, number>; /* how many hints each player has used, missing from older games */
 };
 
-export const createChessState = (length: number, players: Players): ChessState => {
-    const chess = new Chess();
+const isCastle = (move: Move): boolean => move.flags.indexOf('k') >= 0 || move.flags.indexOf('q') >= 0;
+
+/* the square of the piece taken by a move, which differs from the destination for en passant */
+const takenSquare = (move: Move): string => {
+    return move.flags.indexOf('e') >= 0 ? `${move.to[0]}${move.from[1]}` : move.to;
+};
+
+/*
+ * moves the uids of the pieces involved in a move (mutating pieceUids)
+ * and returns what is needed to put them back when undoing
+ */
+const applyMoveUids = (pieceUids: Record<string, string>, move: Move, variant: Variant): MoveUID => {
+    const tracked: MoveUID = {};
+
+    if (isCastle(move)) {
+        // move uids for both king and castle, in chess960 they can land on each other's squares
+        const { king, rook } = getCastlingSquares(move, variant);
+        const [kingUid, rookUid] = [pieceUids[king[0]], pieceUids[rook[0]]];
+        delete pieceUids[king[0]];
+        delete pieceUids[rook[0]];
+        pieceUids[king[1]] = kingUid;
+        pieceUids[rook[1]] = rookUid;
+        return tracked;
+    }
+
+    if (move.captured) {
+        // get stored uid
+        tracked.taken = pieceUids[takenSquare(move)];
+        delete pieceUids[takenSquare(move)];
+    }
+    pieceUids[move.to] = pieceUids[move.from];
+    delete pieceUids[move.from];
+    return tracked;
+};
+
+/* the reverse of applyMoveUids */
+const revertMoveUids = (pieceUids: Record<string, string>, move: Move, variant: Variant, tracked?: MoveUID) => {
+    if (isCastle(move)) {
+        const { king, rook } = getCastlingSquares(move, variant);
+        const [kingUid, rookUid] = [pieceUids[king[1]], pieceUids[rook[1]]];
+        delete pieceUids[king[1]];
+        delete pieceUids[rook[1]];
+        pieceUids[king[0]] = kingUid;
+        pieceUids[rook[0]] = rookUid;
+        return;
+    }
+
+    pieceUids[move.from] = pieceUids[move.to];
+    delete pieceUids[move.to];
+    if (move.captured) {
+        if (tracked && tracked.taken) {
+            pieceUids[takenSquare(move)] = tracked.taken;
+        } else {
+            console.error('move UID tracker made a mistake');
+        }
+    }
+};
+
+export const createChessState = (
+    timeControl: TimeControl,
+    players: Players,
+    positions: string = DEFAULT_POSITIONS,
+    variant: Variant = 'standard',
+): ChessState => {
+    let castlingRooks: CastlingRooks = { w: [], b: [] };
+    if (variant === 'chess960') {
+        // chess.js doesn't understand chess960 castling so we keep track of it ourselves
+        ({ fen: positions, castlingRooks } = parse960Fen(positions));
+    }
+
+    const chess = loadPosition(positions);
+    const complete = getCompleteFlag(chess);
     const pieceUids: Record<string, string> = {};
     chess.board().flat().forEach((key, i) => {
         if (key === null) return;
         pieceUids[key.square] = `${i}`;
     });
     const board = getBoard(chess, pieceUids);
+    const fen = variant === 'chess960' ? to960Fen(chess, castlingRooks) : chess.fen();
 
     return {
         board,
         timers: {
             'w': {
-                time: length * 60,
+                time: timeControl.base,
             },
             'b': {
-                time: length * 60,
+                time: timeControl.base,
             },
         },
         moves: [],
-        captured: {
-            'w': [],
-            'b': [],
-        },
-        turn: 'w',
+        captured: getMissingMaterial(chess),
+        turn: chess.turn(),
         check: {
-            'w': false,
-            'b': false,
+            'w': chess.turn() === 'w' && chess.isCheck(),
+            'b': chess.turn() === 'b' && chess.isCheck(),
         },
-        fen: chess.fen(),
-        redoStack: [],
+        fen,
+        startFen: fen,
+        complete,
+        result: complete ? getResult(complete, chess.turn()) : undefined,
+        tree: createTree(),
         pieceUids,
-        pieceUidTracker: [],
         paused: false,
         players,
+        timeControl,
+        variant,
+        castlingRooks,
+    };
+};
+
+/* banks the time used by whichever clock is running and stops it */
+const stopClocks = (state: ChessState, time: number): Timers => {
+    const timers = { w: { ...state.timers.w }, b: { ...state.timers.b } };
+    for (const timer of [timers.w, timers.b]) {
+        if (timer.set) {
+            timer.time -= chargeTime(state.timeControl, (time - timer.set) / 1000);
+            timer.set = undefined;
+        }
+    }
+    return timers;
+};
+
+/*
+ * a game saved at the given time, with its clocks stopped at that time so that time
+ * away isn't counted. unfinished games are paused until the player is ready
+ */
+export const restoreChessState = (state: ChessState, savedAt: number): ChessState => ({
+    ...state,
+    paused: state.paused || (!state.complete && (state.moves ?? []).length > 0),
+    timers: stopClocks(state, savedAt),
+});
+
+const endGame = (state: ChessState, complete: string, result: GameResult, time: number): ChessState => {
+    return {
+        ...state,
+        complete,
+        result,
+        drawOffer: undefined,
+        timers: stopClocks(state, time),
+    };
+};
+
+/*
+ * plays a move without touching the timers, reusing the tree node if the
+ * move has already been played from this position. throws if the move is illegal
+ */
+export const stepForward = (state: ChessState, from: Square, to: Square, promotion?: PieceSymbol): ChessState => {
+    const chess = chessFromState(state);
+    // chess960 castles aren't understood by chess.js
+    const castle = state.variant === 'chess960' ?
+        makeCastle(chess, state.castlingRooks, from, to) :
+        undefined;
+    const move = castle ?? chess.move({ from, to, promotion });
+
+    const pieceUids = { ...state.pieceUids };
+    const tracked = applyMoveUids(pieceUids, move, state.variant);
+
+    let castlingRooks = state.castlingRooks;
+    if (state.variant === 'chess960') {
+        tracked.castlingRooks = castlingRooks;
+        castlingRooks = updateCastlingRooks(castlingRooks, move);
+    }
+
+    const existing = findChild(state.tree, state.tree.current, move.from, move.to, move.promotion);
+
+    return {
+        ...state,
+        fen: state.variant === 'chess960' ? to960Fen(chess, castlingRooks) : chess.fen(),
+        pieceUids,
+        castlingRooks,
+        tree: existing !== undefined ?
+            { ...state.tree, current: existing } :
+            addNode(state.tree, move, tracked),
+        moves: [...state.moves ?? [], move],
+        captured: move.captured ?
+            { ...state.captured, [move.color]: [...state.captured[move.color], move.captured] } :
+            state.captured,
+    };
+};
+
+/* takes back the current move without touching the timers, returns undefined at the start of the game */
+export const stepBack = (state: ChessState): ChessState | undefined => {
+    const node = state.tree.nodes[state.tree.current];
+    const move = node.move;
+    if (move === undefined || node.parent === undefined) {
+        return undefined;
+    }
+
+    const pieceUids = { ...state.pieceUids };
+    revertMoveUids(pieceUids, move, state.variant, node.uids);
+    const castlingRooks = node.uids.castlingRooks ?? state.castlingRooks;
+
+    let captured = state.captured;
+    if (move.captured) {
+        const index = captured[move.color].lastIndexOf(move.captured);
+        captured = {
+            ...captured,
+            [move.color]: captured[move.color].filter((_, i) => i !== index),
+        };
+    }
+
+    return {
+        ...state,
+        // the FEN given to chess.js in chess960 has no castling rights, so they are put back
+        fen: state.variant === 'chess960' ? to960Fen(new Chess(move.before), castlingRooks) : move.before,
+        pieceUids,
+        castlingRooks,
+        captured,
+        tree: {
+            ...state.tree,
+            current: node.parent,
+        },
+        moves: (state.moves ?? []).slice(0, -1),
+    };
+};
+
+/* updates everything derived from the position on the board */
+const updatePosition = (state: ChessState): ChessState => {
+    const chess = chessFromState(state);
+    const turn = chess.turn();
+    const complete = getCompleteFlag(chess, state.moves);
+
+    return {
+        ...state,
+        turn,
+        board: getBoard(chess, state.pieceUids),
+        check: {
+            w: turn === 'w' && chess.isCheck(),
+            b: turn === 'b' && chess.isCheck(),
+        },
+        complete,
+        result: complete ? getResult(complete, turn) : undefined,
+        claimableDraw: getClaimableDraw(chess, state.moves ?? []),
+    };
+};
+
+/* the clocks as they were after a move, from the times recorded in the tree */
+const clocksAt = (state: ChessState, node: string): Timers => {
+    const timers: Timers = {
+        w: { time: state.timeControl.base },
+        b: { time: state.timeControl.base },
+    };
+    for (const id of pathTo(state.tree, node)) {
+        const { move, clock } = state.tree.nodes[id];
+        if (move && clock !== undefined) {
+            timers[move.color] = { time: clock };
+        }
+    }
+    return timers;
+};
+
+/* the game as it was after the given move, with the clocks stopped */
+const positionAt = (state: ChessState, node: string): ChessState => {
+    let view: ChessState = {
+        ...state,
+        drawOffer: undefined,
+    };
+
+    const ancestor = commonAncestor(view.tree, view.tree.current, node);
+    while (view.tree.current !== ancestor) {
+        view = stepBack(view) as ChessState;
+    }
+    const path = pathTo(view.tree, node);
+    for (const id of path.slice(path.indexOf(ancestor) + 1)) {
+        const { from, to, promotion } = view.tree.nodes[id].move as Move;
+        view = stepForward(view, from, to, promotion);
+    }
+
+    return {
+        ...updatePosition(view),
+        timers: clocksAt(view, node),
+    };
+};
+
+/*
+ * the position after any move of a game, without changing the game itself.
+ * the final position keeps its result, even if the game ended by resignation or time
+ */
+export const chessStateAt = (state: ChessState, node: string): ChessState => {
+    if (node === state.tree.current || state.tree.nodes[node] === undefined) {
+        return state;
+    }
+    return positionAt(state, node);
+};
+
+/* the game up to the given move, with the moves after it removed so that it can be played on */
+export const truncateChessState = (state: ChessState, node: string): ChessState => {
+    const view = positionAt(state, node);
+    return {
+        ...view,
+        tree: view.tree.nodes[node].children.reduce(deleteVariation, view.tree),
     };
 };
 
-/* 
- * actions for modifying the chess state
- * note that if chess is passed in the action, it will be mutated
+/* a chess.js instance for the current position of the state */
+export const chessFromState = (state: ChessState): Chess => {
+    return new Chess(state.variant === 'chess960' ? parse960Fen(state.fen).fen : state.fen);
+};
+
+/*
+ * actions for modifying the chess state. the reducer never changes the state
+ * it is given, so the same state and action always give the same result
  */
 export type ChessAction = {
     type: 'move',
@@ -127,116 +584,99 @@ export type ChessAction = {
     to: Square,
     promotion?: PieceSymbol,
     time: number,
-    chess: Chess,
 } | {
     type: 'undo'
     time: number,
-    chess: Chess,
 } | {
     type: 'redo'
     time: number,
-    chess: Chess,
+} | {
+    /* jump to any position in the move tree */
+    type: 'goto',
+    node: string,
+    time: number,
+} | {
+    type: 'promoteVariation',
+    node: string,
+} | {
+    type: 'deleteVariation',
+    node: string,
+    time: number,
 } | {
     type: 'pause'
-    time?: number, /* time only required for unpausing */
+    time: number,
 } | {
     type: 'checkTimers',
-    chess: Chess,
     time: number,
+} | {
+    type: 'resign',
+    color: Color,
+    time: number,
+} | {
+    /* offering when a draw can be claimed (or the opponent has offered) ends the game */
+    type: 'offerDraw',
+    color: Color,
+    time: number,
+} | {
+    type: 'acceptDraw',
+    color: Color,
+    time: number,
+} | {
+    type: 'declineDraw',
+    color: Color,
+} | {
+    /* a hint was shown to the player */
+    type: 'hint',
+    color: Color,
 };
 
 /* only for our reducer to use */
 type InternalChessAction = {
     type: 'endMove',
-    chess: Chess,
     time: number,
+    moved: boolean, /* increments are only given for moves, not undos */
 };
 
 export const chessReducer = (state: ChessState, action: ChessAction | InternalChessAction): ChessState => {
     switch (action.type) {
         case 'move': {
+            if (state.paused) {
+                break;
+            }
+
             state = chessReducer(state, {
                 type: 'checkTimers',
-                chess: action.chess,
                 time: action.time,
             });
             if (state.complete) {
                 break;
             }
 
-            if (state.redoStack) {
-                state.redoStack = [];
-            }
-
+            let next: ChessState;
             try {
-                const move = action.chess.move({
-                    from: action.from,
-                    to: action.to,
-                    promotion: action.promotion,
-                });
-                const tracked: MoveUID = {};
-                // needs to handle -> captures, castling
-                if (move.captured || move.flags.indexOf('e') >= 0) {
-                    // get stored uid
-                    tracked.taken = state.pieceUids[move.to];
-                    state.pieceUids[move.to] = state.pieceUids[move.from];
-                    delete state.pieceUids[move.from];
-                } else if (move.flags.indexOf('k') >= 0) {
-                    // swap uids for both king and castle (kingside)
-                    state.pieceUids[move.to] = state.pieceUids[move.from];
-                    delete state.pieceUids[move.from];
-                    const castleFrom = `h${move.from[1]}`;
-                    const castleTo = `f${move.from[1]}`;
-                    state.pieceUids[castleTo] = state.pieceUids[castleFrom];
-                    delete state.pieceUids[castleFrom];
-                } else if (move.flags.indexOf('q') >= 0) {
-                    // swap uids for both king and castle (queenside)
-                    state.pieceUids[move.to] = state.pieceUids[move.from];
-                    delete state.pieceUids[move.from];
-                    const castleFrom = `a${move.from[1]}`;
-                    const castleTo = `d${move.from[1]}`;
-                    state.pieceUids[castleTo] = state.pieceUids[castleFrom];
-                    delete state.pieceUids[castleFrom];
-                } else {
-                    // normal move, just move uid
-                    state.pieceUids[move.to] = state.pieceUids[move.from];
-                    delete state.pieceUids[move.from];
-                }
-
-                state.pieceUids = {
-                    ...state.pieceUids,
-                };
-
-                state.pieceUidTracker = [
-                    ...state.pieceUidTracker,
-                    tracked,
-                ];
-
-                state.moves = [
-                    ...state.moves ?? [],
-                    move,
-                ];
-
-                if (move.captured) {
-                    state.captured[move.color] = [
-                        ...state.captured[move.color],
-                        move.captured,
-                    ];
-                }
+                next = stepForward(state, action.from, action.to, action.promotion);
             } catch (e) {
                 break;
             }
 
-            return chessReducer(state, {
+            // moving instead of answering a draw offer declines it
+            if (state.drawOffer && state.drawOffer !== state.turn) {
+                next = { ...next, drawOffer: undefined };
+            }
+
+            return chessReducer(next, {
                 type: 'endMove',
-                chess: action.chess,
                 time: action.time,
+                moved: true,
             });
         }
         case 'undo': {
+            if (state.paused) {
+                break;
+            }
+
             state = chessReducer(state, {
                 type: 'checkTimers',
-                chess: action.chess,
                 time: action.time,
             });
 
@@ -244,105 +684,173 @@ export const chessReducer = (state: ChessState, action: ChessAction | InternalCh
                 break;
             }
 
-            const move = action.chess.undo();
-            if (move === null || state.moves === undefined) {
+            const previous = stepBack(state);
+            if (!previous) {
                 break;
             }
-            state.moves.pop();
-            state.moves = [...state.moves];
-
-            const update = state.pieceUidTracker.pop();
-            state.pieceUidTracker = [...state.pieceUidTracker];
-
-            if (move.captured || move.flags.indexOf('e') >= 0) {
-                // get stored uid
-                state.pieceUids[move.from] = state.pieceUids[move.to];
-                if (update && update.taken) {
-                    state.pieceUids[move.to] = update.taken;
-                } else {
-                    console.error('move UID tracker made a mistake');
-                    delete state.pieceUids[move.to];
-                }
-            } else if (move.flags.indexOf('k') >= 0) {
-                // swap uids for both king and castle (kingside)
-                state.pieceUids[move.from] = state.pieceUids[move.to];
-                delete state.pieceUids[move.to];
-                const castleFrom = `h${move.from[1]}`;
-                const castleTo = `f${move.from[1]}`;
-                state.pieceUids[castleFrom] = state.pieceUids[castleTo];
-                delete state.pieceUids[castleTo];
-            } else if (move.flags.indexOf('q') >= 0) {
-                // swap uids for both king and castle (queenside)
-                state.pieceUids[move.from] = state.pieceUids[move.to];
-                delete state.pieceUids[move.to];
-                const castleFrom = `a${move.from[1]}`;
-                const castleTo = `d${move.from[1]}`;
-                state.pieceUids[castleFrom] = state.pieceUids[castleTo];
-                delete state.pieceUids[castleTo];
-            } else {
-                // normal move, just move uid
-                state.pieceUids[move.from] = state.pieceUids[move.to];
-                delete state.pieceUids[move.to];
-            }
-
-            state.pieceUids = {
-                ...state.pieceUids
-            };
 
-            if (move.captured) {
-                const oldCaptured = state.captured[move.color];
-                const index = oldCaptured.indexOf(move.captured);
-                state.captured[move.color] = oldCaptured
-                    .filter((_, i) => i !== index);
+            return chessReducer({ ...previous, drawOffer: undefined }, {
+                type: 'endMove',
+                time: action.time,
+                moved: false,
+            });
+        }
+        case 'redo': {
+            // replays the main continuation from the current position
+            const next = state.tree.nodes[state.tree.current].children[0];
+            const move = next !== undefined ? state.tree.nodes[next].move : undefined;
+            if (move === undefined) {
+                break;
             }
 
-            state.redoStack = [
-                ...state.redoStack,
-                move,
-            ];
-
             return chessReducer(state, {
-                type: 'endMove',
-                chess: action.chess,
+                type: 'move',
+                to: move.to,
+                from: move.from,
+                promotion: move.promotion,
                 time: action.time,
             });
         }
-        case 'redo': {
+        case 'goto': {
+            if (state.paused || state.tree.nodes[action.node] === undefined) {
+                break;
+            }
+
             state = chessReducer(state, {
                 type: 'checkTimers',
-                chess: action.chess,
                 time: action.time,
             });
 
-            if (state.complete) {
+            if (state.complete || state.tree.current === action.node) {
                 break;
             }
 
-            const move = state.redoStack.pop();
-            if (move === undefined) {
-                break;
+            // take moves back to where the lines split, then play down the other line
+            let next = state;
+            const ancestor = commonAncestor(next.tree, next.tree.current, action.node);
+            while (next.tree.current !== ancestor) {
+                next = stepBack(next) as ChessState;
+            }
+            const path = pathTo(next.tree, action.node);
+            for (const id of path.slice(path.indexOf(ancestor) + 1)) {
+                const { from, to, promotion } = next.tree.nodes[id].move as Move;
+                next = stepForward(next, from, to, promotion);
             }
 
-            const redo = [...state.redoStack];
-
-            state = chessReducer(state, {
-                type: 'move',
-                to: move.to,
-                from: move.from,
-                promotion: move.promotion,
-                chess: action.chess,
+            return chessReducer({ ...next, drawOffer: undefined }, {
+                type: 'endMove',
                 time: action.time,
+                moved: false,
             });
+        }
+        case 'promoteVariation': {
+            return {
+                ...state,
+                tree: promoteVariation(state.tree, action.node),
+            };
+        }
+        case 'deleteVariation': {
+            const node = state.tree.nodes[action.node];
+            if (node?.parent === undefined) {
+                break;
+            }
 
-            state.redoStack = redo;
+            // move off the variation before removing it
+            if (isDescendant(state.tree, state.tree.current, action.node)) {
+                state = chessReducer(state, {
+                    type: 'goto',
+                    node: node.parent,
+                    time: action.time,
+                });
+            }
 
-            return state;
+            return {
+                ...state,
+                tree: deleteVariation(state.tree, action.node),
+            };
         }
         case 'pause': {
-            console.error('PAUSE is not implemented');
-            break;
+            if (state.complete) {
+                break;
+            }
+
+            if (!state.paused) {
+                // bank the elapsed time and freeze both clocks
+                return {
+                    ...state,
+                    timers: stopClocks(state, action.time),
+                    paused: true,
+                };
+            }
+
+            // clocks only run once the first move has been made
+            const started = (state.moves ?? []).length > 0;
+            return {
+                ...state,
+                timers: {
+                    w: { ...state.timers.w, set: started && state.turn === 'w' ? action.time : state.timers.w.set },
+                    b: { ...state.timers.b, set: started && state.turn === 'b' ? action.time : state.timers.b.set },
+                },
+                paused: false,
+            };
+        }
+        case 'resign': {
+            if (state.complete) {
+                break;
+            }
+
+            return endGame(state, CompleteFlag.RESIGNATION, getResult(CompleteFlag.RESIGNATION, action.color), action.time);
+        }
+        case 'offerDraw': {
+            if (state.complete || state.paused) {
+                break;
+            }
+
+            if (state.claimableDraw) {
+                return endGame(state, state.claimableDraw, '1/2-1/2', action.time);
+            }
+            if (state.drawOffer && state.drawOffer !== action.color) {
+                return endGame(state, CompleteFlag.DRAW + CompleteFlag.AGREEMENT, '1/2-1/2', action.time);
+            }
+
+            return {
+                ...state,
+                drawOffer: action.color,
+            };
+        }
+        case 'acceptDraw': {
+            if (state.complete || !state.drawOffer || state.drawOffer === action.color) {
+                break;
+            }
+
+            return endGame(state, CompleteFlag.DRAW + CompleteFlag.AGREEMENT, '1/2-1/2', action.time);
+        }
+        case 'declineDraw': {
+            if (!state.drawOffer || state.drawOffer === action.color) {
+                break;
+            }
+
+            return {
+                ...state,
+                drawOffer: undefined,
+            };
+        }
+        case 'hint': {
+            if (state.complete || state.paused) {
+                break;
+            }
+
+            const hints = state.hints ?? { w: 0, b: 0 };
+            return {
+                ...state,
+                hints: { ...hints, [action.color]: hints[action.color] + 1 },
+            };
         }
         case 'checkTimers': {
+            if (state.complete) {
+                break;
+            }
+
             const now = action.time;
             const { set, time } = state.timers.w.set ? state.timers.w : state.timers.b;
             if (!set) {
@@ -350,11 +858,15 @@ export const chessReducer = (state: ChessState, action: ChessAction | InternalCh
             }
 
             const elapsed = (now - set) / 1000;
-            if (time - elapsed <= 0) {
-                state.complete = getCompleteFlag(action.chess, true);
+            if (time - chargeTime(state.timeControl, elapsed) <= 0) {
+                const chess = chessFromState(state);
+                const complete = getCompleteFlag(chess, state.moves, true);
 
                 return {
                     ...state,
+                    complete,
+                    result: complete ? getResult(complete, chess.turn()) : undefined,
+                    drawOffer: undefined,
                     timers: {
                         w: {
                             time: state.timers.w.set ?
@@ -372,38 +884,37 @@ export const chessReducer = (state: ChessState, action: ChessAction | InternalCh
             break;
         }
         case 'endMove': {
+            const position = updatePosition(state);
+
             // update timers
-            let { w, b } = state.timers;
-            if (action.chess.turn() === 'b') {
-                b.set = action.time;
-                if (w.set) {
-                    const elapsed = (b.set - w.set) / 1000;
-                    w.time -= elapsed;
+            const timers: Timers = { w: { ...state.timers.w }, b: { ...state.timers.b } };
+            const [next, finished] = position.turn === 'b' ? [timers.b, timers.w] : [timers.w, timers.b];
+            next.set = action.time;
+            if (finished.set) {
+                const elapsed = (next.set - finished.set) / 1000;
+                finished.time -= chargeTime(state.timeControl, elapsed);
+                if (action.moved) {
+                    finished.time += creditTime(state.timeControl, elapsed);
                 }
-                w.set = undefined;
-            } else {
-                w.set = action.time;
-                if (b.set) {
-                    const elapsed = (w.set - b.set) / 1000;
-                    b.time -= elapsed;
-                }
-                b.set = undefined;
             }
-            state.timers = { w, b };
-
-            // update state
-            state.turn = action.chess.turn();
-            state.board = getBoard(action.chess, state.pieceUids);
-            state.check = {
-                w: false,
-                b: false,
-            };
-            state.check[state.turn] = action.chess.isCheck();
-            state.complete = getCompleteFlag(action.chess, false);
-            return {
-                ...state,
+            finished.set = undefined;
+
+            const ended: ChessState = {
+                ...position,
+                timers,
+                // remember the clock after each move, for %clk comments in PGN
+                tree: action.moved ?
+                    updateNode(position.tree, position.tree.current, { clock: finished.time }) :
+                    position.tree,
             };
+            if (ended.complete) {
+                return {
+                    ...ended,
+                    timers: stopClocks(ended, action.time),
+                };
+            }
+            return ended;
         }
     }
     return state;
-};
\ No newline at end of file
+};
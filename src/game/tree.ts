@@ -0,0 +1,135 @@
+import { Move, PieceSymbol } from "chess.js";
+import { CastlingRooks } from "./chess960";
+
+/* what's needed to put piece uids (and castling rights) back when taking a move back */
+export type MoveUID = { taken?: string, castlingRooks?: CastlingRooks };
+
+export interface MoveNode {
+    id: string;
+    move?: Move; /* only the root has no move */
+    parent?: string;
+    children: string[]; /* the first child continues the main line */
+    uids: MoveUID;
+    clock?: number; /* seconds left for the player who made the move */
+};
+
+/*
+ * every move played in a game, including lines that were taken back,
+ * with current pointing at the position on the board
+ */
+export interface MoveTree {
+    nodes: Record<string, MoveNode>;
+    root: string;
+    current: string;
+    nextId: number;
+};
+
+export const createTree = (): MoveTree => ({
+    nodes: {
+        '0': { id: '0', children: [], uids: {} },
+    },
+    root: '0',
+    current: '0',
+    nextId: 1,
+});
+
+/* node ids from the first move up to (and including) the given node */
+export const pathTo = (tree: MoveTree, id: string): string[] => {
+    const path: string[] = [];
+    let node: MoveNode | undefined = tree.nodes[id];
+    while (node && node.id !== tree.root) {
+        path.unshift(node.id);
+        node = node.parent !== undefined ? tree.nodes[node.parent] : undefined;
+    }
+    return path;
+};
+
+export const movesTo = (tree: MoveTree, id: string): Move[] => {
+    return pathTo(tree, id).map(nodeId => tree.nodes[nodeId].move as Move);
+};
+
+/* the deepest node that both nodes descend from */
+export const commonAncestor = (tree: MoveTree, a: string, b: string): string => {
+    const ancestors = new Set([tree.root, ...pathTo(tree, a)]);
+    const path = pathTo(tree, b);
+    for (let i = path.length - 1; i >= 0; i--) {
+        if (ancestors.has(path[i])) {
+            return path[i];
+        }
+    }
+    return tree.root;
+};
+
+export const isDescendant = (tree: MoveTree, id: string, ancestor: string): boolean => {
+    return id === ancestor || pathTo(tree, id).indexOf(ancestor) >= 0;
+};
+
+/* the child of a node that plays the given move, if it has been played before */
+export const findChild = (tree: MoveTree, parent: string, from: string, to: string, promotion?: PieceSymbol): string | undefined => {
+    return tree.nodes[parent].children.find(id => {
+        const move = tree.nodes[id].move;
+        return move?.from === from && move.to === to && move.promotion === promotion;
+    });
+};
+
+/* adds a move after the current node and makes it current, new lines become variations */
+export const addNode = (tree: MoveTree, move: Move, uids: MoveUID): MoveTree => {
+    const id = `${tree.nextId}`;
+    const parent = tree.nodes[tree.current];
+    return {
+        ...tree,
+        nodes: {
+            ...tree.nodes,
+            [parent.id]: { ...parent, children: [...parent.children, id] },
+            [id]: { id, move, parent: parent.id, children: [], uids },
+        },
+        current: id,
+        nextId: tree.nextId + 1,
+    };
+};
+
+export const updateNode = (tree: MoveTree, id: string, update: Partial<MoveNode>): MoveTree => ({
+    ...tree,
+    nodes: {
+        ...tree.nodes,
+        [id]: { ...tree.nodes[id], ...update },
+    },
+});
+
+/*
+ * moves the variation containing the node up one level, swapping it
+ * with the line it branched from at the nearest branch point
+ */
+export const promoteVariation = (tree: MoveTree, id: string): MoveTree => {
+    const path = pathTo(tree, id);
+    for (let i = path.length - 1; i >= 0; i--) {
+        const node = tree.nodes[path[i]];
+        const parent = tree.nodes[node.parent as string];
+        if (parent.children[0] !== node.id) {
+            return updateNode(tree, parent.id, {
+                children: [node.id, ...parent.children.filter(child => child !== node.id)],
+            });
+        }
+    }
+    return tree;
+};
+
+/* removes a node and everything after it, the current node must not be inside it */
+export const deleteVariation = (tree: MoveTree, id: string): MoveTree => {
+    const node = tree.nodes[id];
+    if (node === undefined || node.parent === undefined || isDescendant(tree, tree.current, id)) {
+        return tree;
+    }
+
+    const nodes = { ...tree.nodes };
+    const remove = [id];
+    while (remove.length > 0) {
+        const next = remove.pop() as string;
+        remove.push(...nodes[next].children);
+        delete nodes[next];
+    }
+
+    const parent = nodes[node.parent];
+    nodes[parent.id] = { ...parent, children: parent.children.filter(child => child !== id) };
+    return { ...tree, nodes };
+};
@@ -1,16 +1,42 @@
-import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
-import { SettingsContext } from './SettingsProvider';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Settings, SettingsContext, getTimeControl, getUciSettings } from './SettingsProvider';
 
-import { Chess, Color, PieceSymbol, Square } from 'chess.js';
-import { ChessState, chessReducer, createChessState } from '@/game/state';
-import { getAIMove } from '@/api/chessApi';
+import { Color, PieceSymbol, Square } from 'chess.js';
+import { v4 as uuid } from 'uuid';
+import { ChessAction, ChessState, Players, chessFromState, chessReducer, chessStateAt, createChessState, restoreChessState, stepForward } from '@/game/state';
+import { Variant } from '@/game/chess960';
+import { importPgn } from '@/game/pgn';
+import { isDescendant, pathTo } from '@/game/tree';
+import { GameAnalysis, PositionScore, analyseGame, finalScore, mateToCentipawns } from '@/game/analysis';
+import { GameSession, PlayerController } from '@/game/session';
+import { BotMoveContext, BotPlayer, LocalPlayer, PlayerMove } from '@/game/players';
+import { BOT_LEVELS, getBotLevel } from '@/game/bot';
+import { AIProvider, Evaluation, EvaluationLine, ThinkingInfo, getAIMove, getEvaluation } from '@/api/chessApi';
+import { UciSettings } from '@/api/uciEngine';
+import { isAbortError, sleep } from '@/api/request';
+import { chargeTime } from '@/game/clock';
+import { SavedGame, loadGame, saveGame } from '@/api/gameStorage';
 
 export type PlayerType = 'local' | 'bot';
 
+/* who is playing, against each other, against a bot, or bots against each other */
+export type GameMode = 'local' | 'bot' | 'bots';
+
+/* one side's bot, anything missing comes from bot_level and the settings */
+export interface BotConfig {
+  level?: number;
+  provider?: AIProvider;
+}
+
 export interface ChessConfig {
   player_white: PlayerType;
   player_black: PlayerType;
   positions: string;
+  variant: Variant;
+  pgn?: string; /* a game to replay, instead of starting from positions */
+  bot_level?: number;
+  bots?: Partial<Record<Color, BotConfig>>; /* e.g. to pit two engines against each other */
+  move_delay?: number; /* the least time a bot takes to move, in ms, so that games between bots can be followed */
 }
 
 export const XYtoSquare = (x: number, y: number): Square => {
@@ -22,26 +48,118 @@ export const SquareToXY = (square: Square): [number, number] => {
 }
 
 type StartNewGame_Func = (config: ChessConfig) => void;
+type ResumeGame_Func = (game: SavedGame) => void;
+type ReplayGame_Func = (game: SavedGame) => void;
 type MakeMove_Func = (from: Square, to: Square) => boolean;
 type Promote_Func = (from: Square, to: Square, promotion: PieceSymbol) => boolean;
 type PotentialMoves_Func = (from_x: number, from_y: number) => { to: Square, flags: string }[];
 type UndoMove_Func = () => boolean;
 type RedoMove_Func = () => boolean;
+type Goto_Func = (node: string) => boolean;
+type View_Func = (node: string | undefined) => void;
+type ViewStep_Func = (step: 'first' | 'prev' | 'next' | 'last') => void;
+type Variation_Func = (node: string) => boolean;
 type Pause_Func = () => boolean;
 type OutOfTime_Func = () => void;
+type Resign_Func = () => boolean;
+type OfferDraw_Func = () => boolean;
+type AnswerDraw_Func = (accept: boolean) => boolean;
+type ShowHint_Func = () => Promise<string | undefined>;
+
+/* what the bot on turn is doing, while it thinks or once it has stopped without moving */
+export interface BotStatus {
+  color: Color;
+  thinking: boolean;
+  message?: string; /* e.g. that it is trying again */
+  info?: ThinkingInfo; /* the latest from the engine's search, when it says how it is going */
+  error?: string;
+  cancelled?: boolean;
+}
+
+/* a move suggested to the player, the destination is only given away when asked for a second time */
+export interface Hint {
+  node: string; /* the position it is for */
+  from: Square;
+  to: Square;
+  showTo: boolean;
+}
+
+/* what the engine said about the last move a bot made */
+export interface BotMoveReport {
+  color: Color;
+  node: string; /* the position after the move, which the report is only shown for */
+  time?: number; /* ms */
+  ponder?: string; /* in UCI notation */
+}
+
+/* a post-game analysis while it runs, and once it has finished */
+export interface AnalysisStatus {
+  done: number; /* positions evaluated so far */
+  total: number;
+  result?: GameAnalysis;
+  error?: string;
+}
+
+/* one of the engine's best lines, with its moves in SAN to show them */
+export type EngineLine = EvaluationLine & { san: string[] };
+
+/* the engine's best lines for the position being viewed, when they have been asked for */
+export interface EngineLines {
+  fen: string;
+  lines: EngineLine[];
+  error?: string;
+}
 
 interface ChessInterface {
   state: ChessState;
+  analysis: AnalysisStatus | undefined;
+  Analyse: () => boolean;
+  CancelAnalysis: () => void;
+  hint: Hint | undefined;
+  hintsLeft: number | undefined; /* for the player on turn, undefined when there is no limit */
+  ShowHint: ShowHint_Func; /* resolves to why a hint couldn't be shown */
+  orientation: Color; /* the side at the bottom of the board */
+  FlipBoard: () => void;
+  moveDelay: number;
+  SetMoveDelay: (ms: number) => void;
+  botThinking: boolean;
+  botStatus: BotStatus | undefined;
+  lastBotMove: BotMoveReport | undefined;
+  CancelBot: () => boolean;
+  RetryBot: () => boolean;
+  view: ChessState; /* the position on the board, which may be earlier than the game itself */
+  viewNode: string | undefined;
+  lineCount: number; /* how many engine lines to show, 0 when they are hidden */
+  SetLineCount: (count: number) => void;
+  engineLines: EngineLines | undefined; /* undefined while the engine thinks */
+  /* an engine line played out on the board, away from the game */
+  preview: { line: number, move: string | undefined } | undefined;
+  PreviewLine: (line: number | undefined) => boolean;
+  readOnly: boolean;
+  /* dev builds only, every action given to the game so that it can be stepped through */
+  actionLog: ChessAction[];
+  inspecting: number | undefined; /* how many of the logged actions the state shown has had */
+  Inspect: (count: number | undefined) => void;
   anticheat: string | undefined;
   clearAnticheat: () => void;
   StartNewGame: StartNewGame_Func;
+  ResumeGame: ResumeGame_Func;
+  ReplayGame: ReplayGame_Func;
   MakeMove: MakeMove_Func;
   Promote: Promote_Func;
   PotentialMoves: PotentialMoves_Func;
   UndoMove: UndoMove_Func;
   RedoMove: RedoMove_Func;
+  Goto: Goto_Func;
+  View: View_Func;
+  ViewStep: ViewStep_Func;
+  PromoteVariation: Variation_Func;
+  DeleteVariation: Variation_Func;
   Pause: Pause_Func;
   OutOfTime: OutOfTime_Func;
+  Resign: Resign_Func;
+  OfferDraw: OfferDraw_Func;
+  AnswerDraw: AnswerDraw_Func;
 }
 
 export const ChessContext = createContext<ChessInterface | null>(null);
@@ -58,128 +176,642 @@ interface ChessProviderProps {
   children?: React.ReactNode,
 }
 
+/* which engine the bot uses, how to reach a UCI engine and how long to wait for it */
+interface BotSettings {
+  provider: AIProvider;
+  uci: UciSettings;
+  timeout: number; /* ms */
+  retries: number;
+}
+
+const getBotSettings = (settings: Settings): BotSettings => ({
+  provider: settings.aiProvider,
+  uci: getUciSettings(settings),
+  timeout: settings.aiTimeout * 1000,
+  retries: settings.aiRetries,
+});
+
+/* milliseconds left on a clock right now */
+const timeLeft = (state: ChessState, color: Color): number => {
+  const { set, time } = state.timers[color];
+  const elapsed = set ? chargeTime(state.timeControl, (new Date().getTime() - set) / 1000) : 0;
+  return (time - elapsed) * 1000;
+};
+
+/* asks the AI for a move, at the level of the player on turn unless told otherwise */
+const getBotMove = async (
+  state: ChessState,
+  { provider, uci, timeout, retries }: BotSettings,
+  { signal, status }: BotMoveContext,
+  level = state.players[state.turn].level,
+  onInfo?: (info: ThinkingInfo) => void,
+): Promise<PlayerMove> => {
+  // games saved before levels existed leave the strength to the backend
+  const strength = level !== undefined ? getBotLevel(level) : undefined;
+  const response = await getAIMove(state.fen, {
+    chess960: state.variant === 'chess960',
+    provider,
+    uci,
+    start_fen: state.startFen,
+    moves: (state.moves ?? []).map(move => move.from + move.to + (move.promotion ?? '')),
+    wtime: timeLeft(state, 'w'),
+    btime: timeLeft(state, 'b'),
+    winc: state.timeControl.increment * 1000,
+    binc: state.timeControl.increment * 1000,
+    level: strength?.level,
+    skill_level: strength?.skill,
+    depth: strength?.depth,
+    movetime: strength?.movetime,
+    randomness: strength?.randomness,
+    signal,
+    timeout,
+    retries,
+    onRetry: (attempt, error) => status(`retrying (${attempt}/${retries}) after: ${error.message}`),
+    onInfo,
+  })
+    .catch((error) => {
+      if (isAbortError(error)) throw error;
+      console.error('API call failed:', error);
+      throw new Error(provider === 'uci' ? `UCI engine failed: ${error.message}` : 'Failed to connect to AI backend');
+    });
+
+  if (response.error) {
+    throw new Error('Bot failed to generate a move: ' + response.error);
+  }
+  if (!response.from_square || !response.to_square) {
+    throw new Error('Bot failed to generate a move');
+  }
+
+  return {
+    from: response.from_square as Square,
+    to: response.to_square as Square,
+    promotion: response.promotion as PieceSymbol | undefined ?? undefined,
+    time: response.time_used,
+    ponder: response.ponder,
+  };
+};
+
+// each position is given less time than a bot move, as a game has many of them
+const ANALYSIS_MOVETIME = 300;
+
+const toScore = ({ score_cp, mate, best_line }: Evaluation): PositionScore => ({
+  cp: mate !== null ? mateToCentipawns(mate) : score_cp ?? 0,
+  mate,
+  best: best_line[0],
+});
+
+/* evaluates every position of the game in turn and judges the moves between them */
+const analyseState = async (
+  state: ChessState,
+  { provider, uci, timeout }: BotSettings,
+  signal: AbortSignal,
+  progress: (done: number, total: number) => void,
+): Promise<GameAnalysis> => {
+  const moves = state.moves ?? [];
+  const fens = [...moves.map(move => move.before), moves.length > 0 ? moves[moves.length - 1].after : state.fen];
+  const scores: PositionScore[] = [];
+  for (const fen of fens) {
+    scores.push(finalScore(fen) ?? toScore(await getEvaluation(fen, { provider, uci, movetime: ANALYSIS_MOVETIME, timeout, signal })));
+    progress(scores.length, fens.length);
+  }
+  return analyseGame(moves, pathTo(state.tree, state.tree.current), scores);
+};
+
+// the engine is given longer than for the evaluation bar, as it follows several moves at once
+const ENGINE_LINES_MOVETIME = 1000;
+const ENGINE_LINES_DEBOUNCE = 300;
+export const MAX_ENGINE_LINES = 5;
+
+/* the moves of an engine line played on from the state, up to any that can't be played */
+const playLine = (state: ChessState, line: string[]): ChessState => {
+  let played = state;
+  for (const move of line) {
+    try {
+      played = stepForward(played, move.slice(0, 2) as Square, move.slice(2, 4) as Square, (move[4] || undefined) as PieceSymbol | undefined);
+    } catch (e) {
+      break;
+    }
+  }
+  return played;
+};
+
+/* a bot that plays no faster than the move delay, which is read on every move so that it can be changed during the game */
+const createController = (
+  type: PlayerType,
+  getSettings: () => BotSettings,
+  getMoveDelay: () => number,
+  onInfo: (info: ThinkingInfo) => void,
+  onMove: (state: ChessState, move: PlayerMove) => void,
+): PlayerController => {
+  if (type !== 'bot') return new LocalPlayer();
+
+  return new BotPlayer(async (state, context) => {
+    const started = new Date().getTime();
+    const move = await getBotMove(state, getSettings(), context, undefined, onInfo);
+    await sleep(getMoveDelay() - (new Date().getTime() - started), context.signal);
+    onMove(state, move);
+    return move;
+  });
+};
+
+/* the side the local player sits on, white unless only black is played here */
+const defaultOrientation = (players: Players): Color => {
+  return players.w.type === 'bot' && players.b.type !== 'bot' ? 'b' : 'w';
+};
+
+/*
+ * connects a GameSession to react, the session runs the game
+ * and this keeps a copy of its state for rendering
+ */
 export const ChessProvider: React.FC<ChessProviderProps> = (props) => {
-  const { allowPause, gameLength } = useContext(SettingsContext);
-  const [state, setState] = useState(createChessState(gameLength, { w: { name: 'loading', type: 'local' }, b: { name: 'loading', type: 'local' } }));
+  const settings = useContext(SettingsContext);
+  const { allowPause } = settings;
+  // read when the bot moves, so that changing them takes effect straight away
+  const botSettingsRef = useRef<BotSettings>(getBotSettings(settings));
+  botSettingsRef.current = getBotSettings(settings);
+  const [live, setLive] = useState(createChessState(getTimeControl(settings), { w: { name: 'loading', type: 'local' }, b: { name: 'loading', type: 'local' } }));
   const [anticheat, setAnticheat] = useState<string | undefined>();
-  const [isAIThinking, setIsAIThinking] = useState(false);
-  const stateRef = useRef(new Chess());
+  const [botStatus, setBotStatus] = useState<BotStatus | undefined>(undefined);
+  const [lastBotMove, setLastBotMove] = useState<BotMoveReport | undefined>(undefined);
+  const [orientation, setOrientation] = useState<Color>('w');
+  const [hint, setHint] = useState<Hint | undefined>(undefined);
+  const hintRequestRef = useRef<AbortController | undefined>(undefined);
+  const [moveDelay, setMoveDelay] = useState(0);
+  const moveDelayRef = useRef(moveDelay);
+  moveDelayRef.current = moveDelay;
+  const sessionRef = useRef<GameSession | undefined>(undefined);
   const configRef = useRef<ChessConfig | undefined>(undefined);
+  const gameRef = useRef<{ id: string, startedAt: number } | undefined>(undefined);
+  const latestStateRef = useRef(live);
+  // a finished game that is being looked through, which can't be played on
+  const [replay, setReplay] = useState<SavedGame | undefined>(undefined);
+  const [analysis, setAnalysis] = useState<AnalysisStatus | undefined>(undefined);
+  const analysisRef = useRef<AbortController | undefined>(undefined);
+  // read when saving, which can happen from handlers made before the analysis finished
+  const analysisResultRef = useRef<GameAnalysis | undefined>(undefined);
+  analysisResultRef.current = analysis?.result;
+
+  // rebuilt from the start of the game by replaying the actions, as the reducer is deterministic
+  const [actionLog, setActionLog] = useState<{ start: ChessState, actions: ChessAction[] } | undefined>(undefined);
+  const [inspecting, setInspecting] = useState<number | undefined>(undefined);
+  const inspected = useMemo(
+    () => actionLog && inspecting !== undefined ?
+      actionLog.actions.slice(0, inspecting).reduce(chessReducer, actionLog.start) :
+      undefined,
+    [actionLog, inspecting],
+  );
+  const state = inspected ?? live;
+  const readOnly = replay !== undefined || inspected !== undefined;
+
+  // looking at an earlier position doesn't change the game, which carries on in the background
+  const [viewNode, setViewNode] = useState<string | undefined>(undefined);
+  const baseView = useMemo(
+    () => viewNode !== undefined && !inspected ? chessStateAt(state, viewNode) : state,
+    [state, viewNode],
+  );
+
+  // the engine's lines are for the position being viewed, and one of them can be played out on top of it
+  const [lineCount, setLineCount] = useState(0);
+  const [engineLines, setEngineLines] = useState<EngineLines | undefined>(undefined);
+  const [preview, setPreview] = useState<{ line: number, state: ChessState, node: string } | undefined>(undefined);
+  const view = useMemo(
+    () => preview ? chessStateAt(preview.state, preview.node) : baseView,
+    [baseView, preview],
+  );
 
   useEffect(() => {
-    const thisPlayer = (state.turn === 'b' ? configRef.current?.player_black : configRef.current?.player_white);
-    if (thisPlayer === 'bot' && state.redoStack.length === 0 && !isAIThinking && !state.complete) {
-      setIsAIThinking(true);
-      const fen = stateRef.current.fen();
-      
-      getAIMove(fen)
-        .then((response) => {
-          if (response.error) {
-            console.error('AI error:', response.error);
-            alert('Bot failed to generate a move: ' + response.error);
-            return;
-          }
-          
-          if (response.from_square && response.to_square) {
-            const from = response.from_square as Square;
-            const to = response.to_square as Square;
-            const promotion = response.promotion as PieceSymbol | undefined;
-            
-            setState(oldState => chessReducer(oldState, {
-              type: 'move',
-              from,
-              to,
-              promotion,
-              time: new Date().getTime(),
-              chess: stateRef.current,
-            }));
-          }
-        })
-        .catch((error) => {
-          console.error('API call failed:', error);
-          alert('Failed to connect to AI backend');
+    setPreview(undefined);
+    const fen = baseView.fen;
+    if (lineCount === 0) return;
+    // mate or stalemate, there is nothing for the engine to look at
+    if (chessFromState(baseView).moves().length === 0) {
+      setEngineLines({ fen, lines: [] });
+      return;
+    }
+
+    const controller = new AbortController();
+    const { provider, uci, timeout } = botSettingsRef.current;
+    const timer = setTimeout(() => {
+      getEvaluation(fen, {
+        chess960: baseView.variant === 'chess960',
+        provider,
+        uci,
+        movetime: ENGINE_LINES_MOVETIME,
+        multipv: lineCount,
+        signal: controller.signal,
+        timeout,
+      })
+        .then(evaluation => {
+          const played = baseView.moves?.length ?? 0;
+          const lines = (evaluation.lines ?? [evaluation]).slice(0, lineCount).map(line => ({
+            ...line,
+            san: (playLine(baseView, line.best_line).moves ?? []).slice(played).map(move => move.san),
+          }));
+          setEngineLines({ fen, lines });
         })
-        .finally(() => {
-          setIsAIThinking(false);
+        .catch((error: Error) => {
+          if (isAbortError(error)) return;
+          setEngineLines({ fen, lines: [], error: error.message });
         });
+    }, ENGINE_LINES_DEBOUNCE);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [baseView.fen, lineCount, settings.aiProvider, settings.uciUrl]);
+
+  useEffect(() => {
+    if (viewNode !== undefined && (viewNode === live.tree.current || !live.tree.nodes[viewNode])) {
+      setViewNode(undefined);
+    }
+  }, [live.tree, viewNode]);
+
+  // the game is saved after every change so it can be resumed after a reload
+  const persist = (state: ChessState) => {
+    if (!configRef.current || !gameRef.current) return;
+
+    saveGame({
+      ...gameRef.current,
+      state,
+      config: configRef.current,
+      savedAt: new Date().getTime(),
+      analysis: analysisResultRef.current,
+    }).catch(error => console.error('Failed to save game:', error));
+  };
+
+  // added to the saved game as it was, so that its length in the archive stays the same
+  const saveAnalysis = (id: string, result: GameAnalysis) => {
+    loadGame(id)
+      .then(saved => saved && saveGame({ ...saved, analysis: result }))
+      .catch(error => console.error('Failed to save analysis:', error));
+  };
+
+  useEffect(() => {
+    latestStateRef.current = live;
+    persist(live);
+  }, [live]);
+
+  // a hint is only for the position it was asked for
+  useEffect(() => {
+    hintRequestRef.current?.abort();
+    hintRequestRef.current = undefined;
+    setHint(hint => hint?.node === live.tree.current ? hint : undefined);
+  }, [live.tree.current]);
+
+  // saving when the page is closed means that the clocks can be stopped at the right time
+  useEffect(() => {
+    const onPageHide = () => persist(latestStateRef.current);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      window.removeEventListener('pagehide', onPageHide);
+      sessionRef.current?.dispose();
+    };
+  }, []);
+
+  /* replaces the running game, a session is only made for games that can be played */
+  const load = (newState: ChessState, config?: ChessConfig, game?: { id: string, startedAt: number, analysis?: GameAnalysis }) => {
+    sessionRef.current?.dispose();
+    sessionRef.current = undefined;
+    analysisRef.current?.abort();
+    analysisRef.current = undefined;
+    setAnalysis(game?.analysis ? { done: 0, total: 0, result: game.analysis } : undefined);
+    configRef.current = config;
+    gameRef.current = game && { id: game.id, startedAt: game.startedAt };
+    setBotStatus(undefined);
+    setLastBotMove(undefined);
+    hintRequestRef.current?.abort();
+    hintRequestRef.current = undefined;
+    setHint(undefined);
+    setOrientation(defaultOrientation(newState.players));
+    setMoveDelay(config?.move_delay ?? 0);
+    moveDelayRef.current = config?.move_delay ?? 0;
+    setViewNode(undefined);
+    setLineCount(0);
+    setPreview(undefined);
+    setLive(newState);
+    setActionLog(import.meta.env.DEV ? { start: newState, actions: [] } : undefined);
+    setInspecting(undefined);
+
+    if (config) {
+      // a side's own engine takes the place of the one in the settings
+      const botSettings = (color: Color) => () => {
+        const provider = config.bots?.[color]?.provider;
+        return provider ? { ...botSettingsRef.current, provider } : botSettingsRef.current;
+      };
+      // updates from a search are only shown while that side is still thinking
+      const showInfo = (color: Color) => (info: ThinkingInfo) =>
+        setBotStatus(status => status?.thinking && status.color === color ? { ...status, info } : status);
+      // node ids are given out in order, so the node the move will be played to is known in advance
+      const reportMove = (state: ChessState, { from, to, promotion, time, ponder }: PlayerMove) => {
+        try {
+          setLastBotMove({ color: state.turn, node: stepForward(state, from, to, promotion).tree.current, time, ponder });
+        } catch (e) {
+          // an illegal move is reported by the session
+        }
+      };
+      const session = new GameSession(newState, {
+        w: createController(config.player_white, botSettings('w'), () => moveDelayRef.current, showInfo('w'), reportMove),
+        b: createController(config.player_black, botSettings('b'), () => moveDelayRef.current, showInfo('b'), reportMove),
+      });
+      session.on('change', state => {
+        setLive(state);
+        // a failed or cancelled bot is forgotten once the game moves on, e.g. after an undo
+        setBotStatus(status => status?.thinking ? status : undefined);
+      });
+      if (import.meta.env.DEV) {
+        session.on('action', ({ action }) => setActionLog(log => log && { ...log, actions: [...log.actions, action] }));
+      }
+      session.on('botThinking', ({ color, thinking, status }) => setBotStatus(thinking ? { color, thinking, message: status } : undefined));
+      session.on('error', ({ color, message }) => {
+        console.error('AI error:', message);
+        setBotStatus({ color, thinking: false, error: message });
+      });
+      sessionRef.current = session;
+      session.start();
     }
-  }, [state.turn, state.complete, isAIThinking]);
+  };
+
+  // the player sat at this screen, which is whoever's turn it is if both are local, and nobody if both are bots
+  const localColor = (): Color | undefined => {
+    if (state.players.w.type === 'bot') return state.players.b.type === 'bot' ? undefined : 'b';
+    if (state.players.b.type === 'bot') return 'w';
+    return state.turn;
+  };
+  const spectating = state.players.w.type === 'bot' && state.players.b.type === 'bot';
+  const hintsUsed = state.hints?.[state.turn] ?? 0;
+  const hintsLeft = settings.hintLimit < 0 ? undefined : Math.max(0, settings.hintLimit - hintsUsed);
+
+  const session = readOnly ? undefined : sessionRef.current;
 
   const contextValue: ChessInterface = {
     state,
+    analysis,
+    Analyse: () => {
+      const id = replay?.id ?? gameRef.current?.id;
+      if (!state.complete || analysisRef.current || inspected) return false;
+
+      const controller = new AbortController();
+      analysisRef.current = controller;
+      const total = (state.moves ?? []).length + 1;
+      setAnalysis({ done: 0, total });
+      analyseState(state, botSettingsRef.current, controller.signal, (done, total) => {
+        if (!controller.signal.aborted) setAnalysis({ done, total });
+      })
+        .then(result => {
+          if (controller.signal.aborted) return;
+          setAnalysis({ done: total, total, result });
+          id && saveAnalysis(id, result);
+        })
+        .catch((error: Error) => {
+          if (controller.signal.aborted) return;
+          setAnalysis({ done: 0, total, error: error.message });
+        })
+        .finally(() => {
+          if (analysisRef.current === controller) analysisRef.current = undefined;
+        });
+      return true;
+    },
+    CancelAnalysis: () => {
+      analysisRef.current?.abort();
+      analysisRef.current = undefined;
+      setAnalysis(undefined);
+    },
+    hint,
+    hintsLeft,
+    ShowHint: async () => {
+      const color = state.turn;
+      if (!session || state.complete || state.paused || state.players[color].type !== 'local') return 'no hint is available now';
+      if (viewNode !== undefined) return 'go back to the live position for a hint';
+
+      // asking again for the same position gives away where the piece goes
+      if (hint && hint.node === state.tree.current) {
+        setHint({ ...hint, showTo: true });
+        return undefined;
+      }
+      if (hintsLeft === 0) return 'no hints left for this game';
+      if (hintRequestRef.current) return 'already looking for a hint';
+
+      const node = state.tree.current;
+      const controller = new AbortController();
+      hintRequestRef.current = controller;
+      try {
+        // the strongest bot is asked, whatever the level of the opponent
+        const { from, to } = await getBotMove(state, botSettingsRef.current, { signal: controller.signal, status: () => undefined }, BOT_LEVELS.length);
+        if (controller.signal.aborted || latestStateRef.current.tree.current !== node) return undefined;
+
+        session.hint(color);
+        setHint({ node, from, to, showTo: false });
+        return undefined;
+      } catch (error) {
+        return isAbortError(error) ? undefined : `unable to find a hint: ${(error as Error).message}`;
+      } finally {
+        if (hintRequestRef.current === controller) hintRequestRef.current = undefined;
+      }
+    },
+    orientation,
+    FlipBoard: () => {
+      setOrientation(orientation => orientation === 'w' ? 'b' : 'w');
+    },
+    moveDelay,
+    SetMoveDelay: (ms: number) => {
+      setMoveDelay(ms);
+      moveDelayRef.current = ms;
+      // kept with the game, so that it is the same when resumed
+      if (configRef.current) configRef.current = { ...configRef.current, move_delay: ms };
+    },
+    botThinking: botStatus?.thinking ?? false,
+    botStatus,
+    lastBotMove: lastBotMove?.node === state.tree.current ? lastBotMove : undefined,
+    CancelBot: () => {
+      if (!session || !botStatus?.thinking) return false;
+
+      const { color } = botStatus;
+      session.cancelTurn();
+      setBotStatus({ color, thinking: false, cancelled: true });
+      return true;
+    },
+    RetryBot: () => {
+      if (!session || !botStatus || botStatus.thinking) return false;
+
+      setBotStatus(undefined);
+      return session.retryTurn();
+    },
+    view,
+    viewNode: inspected ? undefined : viewNode,
+    lineCount,
+    SetLineCount: (count: number) => {
+      setLineCount(Math.min(Math.max(count, 0), MAX_ENGINE_LINES));
+    },
+    engineLines: lineCount > 0 && engineLines?.fen === baseView.fen ? engineLines : undefined,
+    preview: preview && { line: preview.line, move: preview.state.tree.nodes[preview.node].move?.san },
+    PreviewLine: (line: number | undefined): boolean => {
+      const shown = line !== undefined && engineLines?.fen === baseView.fen ? engineLines.lines[line] : undefined;
+      if (line === undefined || !shown) {
+        setPreview(undefined);
+        return line === undefined;
+      }
+
+      const played = playLine(baseView, shown.best_line);
+      if (played.tree.current === baseView.tree.current) return false;
+      // starting on the first move of the line, which can then be stepped through
+      const path = pathTo(played.tree, played.tree.current);
+      const base = baseView.tree.current;
+      setPreview({ line, state: played, node: base === played.tree.root ? path[0] : path[path.indexOf(base) + 1] });
+      return true;
+    },
+    readOnly,
+    actionLog: actionLog?.actions ?? [],
+    inspecting,
+    Inspect: (count: number | undefined) => {
+      // the last action is the live game
+      setInspecting(count === undefined || count >= (actionLog?.actions.length ?? 0) ? undefined : Math.max(0, count));
+    },
     anticheat,
     clearAnticheat: () => {
       setAnticheat(undefined);
     },
     StartNewGame: (config: ChessConfig): void => {
-      configRef.current = config;
-      stateRef.current = new Chess();
-      setState(createChessState(gameLength, {
-        w: {
-          name: 'WHITE',
-          type: config.player_white,
-        },
-        b: {
-          name: config.player_black === 'bot' ? 'BOT' : 'BLACK',
-          type: config.player_black,
-        },
-      }));
+      const bothBots = config.player_white === 'bot' && config.player_black === 'bot';
+      const player = (color: Color, type: PlayerType) => {
+        const side = color === 'w' ? 'WHITE' : 'BLACK';
+        if (type !== 'bot') return { name: side, type };
+
+        return {
+          name: bothBots ? `${side} BOT` : 'BOT',
+          type,
+          level: getBotLevel(config.bots?.[color]?.level ?? config.bot_level).level,
+        };
+      };
+      const players: Players = {
+        w: player('w', config.player_white),
+        b: player('b', config.player_black),
+      };
+      // throws if the starting position is illegal or the PGN can't be replayed
+      const newState = config.pgn ?
+        importPgn(config.pgn, getTimeControl(settings), players) :
+        createChessState(getTimeControl(settings), players, config.positions, config.variant);
+
+      setReplay(undefined);
+      load(newState, config, { id: uuid(), startedAt: new Date().getTime() });
+    },
+    ResumeGame: (game: SavedGame): void => {
+      setReplay(undefined);
+      load(restoreChessState(game.state, game.savedAt), game.config, game);
+    },
+    ReplayGame: (game: SavedGame): void => {
+      setReplay(game);
+      load(game.state, undefined, game);
     },
     MakeMove: (from: Square, to: Square): boolean => {
-      setState(oldState => chessReducer(oldState, {
-        type: 'move',
-        from,
-        to,
-        time: new Date().getTime(),
-        chess: stateRef.current,
-      }));
+      if (!session) return false;
+
+      // illegal moves are ignored, the piece just goes back
+      session.move(from, to);
       return true;
     },
     Promote: (from, to, promotion) => {
-      setState(oldState => chessReducer(oldState, {
-        type: 'move',
-        from,
-        to,
-        promotion,
-        time: new Date().getTime(),
-        chess: stateRef.current,
-      }));
+      if (!session) return false;
+
+      session.move(from, to, promotion);
       return true;
     },
     PotentialMoves: (from_x: number, from_y: number): { to: Square, flags: string }[] => {
-      return stateRef.current.moves({ square: XYtoSquare(from_x, from_y), verbose: true });
+      return session?.legalMoves(XYtoSquare(from_x, from_y)) ?? [];
     },
     UndoMove: (): boolean => {
-      setState(oldState => chessReducer(oldState, {
-        type: 'undo',
-        time: new Date().getTime(),
-        chess: stateRef.current,
-      }));
+      if (!session) return false;
+
+      session.undo();
       return true;
     },
     RedoMove: (): boolean => {
-      setState(oldState => chessReducer(oldState, {
-        type: 'redo',
-        time: new Date().getTime(),
-        chess: stateRef.current,
-      }));
+      if (!session) return false;
+
+      session.redo();
       return true;
     },
+    Goto: (node: string): boolean => {
+      if (!session || state.paused || state.complete) return false;
+
+      setViewNode(undefined);
+      return session.goto(node);
+    },
+    View: (node: string | undefined) => {
+      setPreview(undefined);
+      setViewNode(node === state.tree.current ? undefined : node);
+    },
+    ViewStep: (step) => {
+      // a line being previewed is stepped through instead, between the position it starts from and its end
+      if (preview) {
+        const { tree } = preview.state;
+        const base = baseView.tree.current;
+        const path = pathTo(tree, tree.current);
+        const next = preview.node === tree.root ? path[0] : path[path.indexOf(preview.node) + 1];
+        const node = step === 'first' ? base :
+          step === 'last' ? tree.current :
+            step === 'next' ? next ?? preview.node :
+              preview.node === base ? base : tree.nodes[preview.node].parent ?? base;
+        setPreview({ ...preview, node });
+        return;
+      }
+
+      const { tree } = state;
+      const from = viewNode ?? tree.current;
+      const path = pathTo(tree, tree.current);
+      let node: string | undefined;
+
+      if (step === 'first') {
+        node = tree.root;
+      } else if (step === 'prev') {
+        node = tree.nodes[from].parent ?? tree.root;
+      } else if (step === 'next') {
+        // follow the game back towards the live position, otherwise the main line
+        node = isDescendant(tree, tree.current, from) ?
+          (from === tree.root ? path[0] : path[path.indexOf(from) + 1]) :
+          tree.nodes[from].children[0];
+      }
+
+      setViewNode(node === undefined || node === tree.current ? undefined : node);
+    },
+    PromoteVariation: (node: string): boolean => {
+      return session?.promoteVariation(node) ?? false;
+    },
+    DeleteVariation: (node: string): boolean => {
+      if (!session || state.paused || state.complete) return false;
+
+      return session.deleteVariation(node);
+    },
     Pause: (): boolean => {
-      if (!allowPause) return false;
+      if (!session) return false;
 
-      setState(oldState => chessReducer(oldState, {
-        type: 'pause',
-        time: new Date().getTime(),
-      }));
-      return true;
+      // resuming is always allowed so a game can't get stuck paused, and games between bots are only watched
+      if (!allowPause && !state.paused && !spectating) return false;
+
+      return session.pause();
+    },
+    Resign: () => {
+      const color = localColor();
+      if (!session || state.complete || !color) return false;
+
+      return session.resign(color);
+    },
+    OfferDraw: () => {
+      const color = localColor();
+      if (!color) return false;
+      const opponent = state.players[color === 'w' ? 'b' : 'w'];
+      // bots don't accept draws, but a draw that can be claimed doesn't need their agreement
+      if (!session || state.complete || (opponent.type === 'bot' && !state.claimableDraw)) return false;
+
+      return session.offerDraw(color);
+    },
+    AnswerDraw: (accept: boolean) => {
+      if (!session || !state.drawOffer) return false;
+
+      return session.answerDraw(state.drawOffer === 'w' ? 'b' : 'w', accept);
     },
     OutOfTime: () => {
-      setState(oldState => chessReducer(oldState, {
-        type: 'checkTimers',
-        time: new Date().getTime(),
-        chess: stateRef.current,
-      }));
+      session?.checkTimers();
     },
   };
 
@@ -1,4 +1,7 @@
 import React, { createContext, useEffect, useState } from 'react';
+import { DelayMode, TimeControl } from '@/game/clock';
+import { AIProvider } from '@/api/chessApi';
+import { UciSettings } from '@/api/uciEngine';
 
 export interface Settings {
   hasLoaded: boolean;
@@ -8,7 +11,20 @@ export interface Settings {
   allowPause: boolean;
   useChessNotation: boolean;
   gameLength: number;
+  timeIncrement: number;
+  timeDelay: number;
+  timeDelayMode: DelayMode;
   defaultUsername: string;
+  aiProvider: AIProvider;
+  uciUrl: string;
+  uciHash: number;
+  uciThreads: number;
+  uciSkillLevel: number; /* -1 to use the bot's level */
+  aiTimeout: number; /* seconds to wait for each move request */
+  aiRetries: number;
+  showEvaluation: boolean;
+  hideEvaluationAgainstBot: boolean; /* so that the bar can't be used to cheat */
+  hintLimit: number; /* hints each player may use in a game, -1 for no limit */
 }
 
 const InitialSettings: Settings = {
@@ -19,7 +35,20 @@ const InitialSettings: Settings = {
   allowPause: true,
   useChessNotation: false,
   gameLength: 10,
+  timeIncrement: 0,
+  timeDelay: 0,
+  timeDelayMode: 'none',
   defaultUsername: 'online player',
+  aiProvider: 'fallback',
+  uciUrl: 'ws://localhost:8081',
+  uciHash: 16,
+  uciThreads: 1,
+  uciSkillLevel: -1,
+  aiTimeout: 20,
+  aiRetries: 2,
+  showEvaluation: true,
+  hideEvaluationAgainstBot: true,
+  hintLimit: 3,
 };
 
 const colourSchemeMediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
@@ -39,11 +68,38 @@ const findExistingSettings = (): Settings => {
   useChessNotation && (settings.useChessNotation = useChessNotation === 'true');
 
   const length = localStorage.getItem('react-chess.gameLength');
-  length && (settings.gameLength = parseInt(length));
+  length && (settings.gameLength = parseFloat(length));
+  const increment = localStorage.getItem('react-chess.timeIncrement');
+  increment && (settings.timeIncrement = parseInt(increment));
+  const delay = localStorage.getItem('react-chess.timeDelay');
+  delay && (settings.timeDelay = parseInt(delay));
+  const delayMode = localStorage.getItem('react-chess.timeDelayMode');
+  delayMode && (settings.timeDelayMode = delayMode as DelayMode);
 
   const username = localStorage.getItem('react-chess.defaultUsername');
   username && (settings.defaultUsername = username);
 
+  const aiProvider = localStorage.getItem('react-chess.aiProvider');
+  aiProvider && (settings.aiProvider = aiProvider as AIProvider);
+  const uciUrl = localStorage.getItem('react-chess.uciUrl');
+  uciUrl && (settings.uciUrl = uciUrl);
+  const uciHash = localStorage.getItem('react-chess.uciHash');
+  uciHash && (settings.uciHash = parseInt(uciHash));
+  const uciThreads = localStorage.getItem('react-chess.uciThreads');
+  uciThreads && (settings.uciThreads = parseInt(uciThreads));
+  const uciSkillLevel = localStorage.getItem('react-chess.uciSkillLevel');
+  uciSkillLevel && (settings.uciSkillLevel = parseInt(uciSkillLevel));
+  const aiTimeout = localStorage.getItem('react-chess.aiTimeout');
+  aiTimeout && (settings.aiTimeout = parseInt(aiTimeout));
+  const aiRetries = localStorage.getItem('react-chess.aiRetries');
+  aiRetries && (settings.aiRetries = parseInt(aiRetries));
+  const showEvaluation = localStorage.getItem('react-chess.showEvaluation');
+  showEvaluation && (settings.showEvaluation = showEvaluation === 'true');
+  const hideEvaluationAgainstBot = localStorage.getItem('react-chess.hideEvaluationAgainstBot');
+  hideEvaluationAgainstBot && (settings.hideEvaluationAgainstBot = hideEvaluationAgainstBot === 'true');
+  const hintLimit = localStorage.getItem('react-chess.hintLimit');
+  hintLimit && (settings.hintLimit = parseInt(hintLimit));
+
   return settings;
 };
 
@@ -57,6 +113,21 @@ const saveSettings = (settings: Settings) => {
 };
 
 
+export const getTimeControl = (settings: Settings): TimeControl => ({
+  base: settings.gameLength * 60,
+  increment: settings.timeIncrement,
+  delay: settings.timeDelay,
+  delayMode: settings.timeDelayMode,
+});
+
+/* options for a UCI engine, from the settings */
+export const getUciSettings = (settings: Settings): UciSettings => ({
+  url: settings.uciUrl,
+  hash: settings.uciHash,
+  threads: settings.uciThreads,
+  skillLevel: settings.uciSkillLevel >= 0 ? settings.uciSkillLevel : undefined,
+});
+
 type UpdateSettings = React.Dispatch<React.SetStateAction<Settings>>;
 
 export const SettingsContext = createContext<Settings & { updateSettings: UpdateSettings }>({ ...InitialSettings, updateSettings: () => undefined });
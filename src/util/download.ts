@@ -0,0 +1,13 @@
+/* saves text as a file through the browser's downloads */
+export const downloadFile = (contents: string, filename: string, type: string = 'text/plain'): void => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadPgn = (pgn: string, date: Date = new Date()): void => {
+  downloadFile(pgn, `game-${date.toISOString().slice(0, 10)}.pgn`, 'application/x-chess-pgn');
+};
@@ -0,0 +1,48 @@
+/* github pages can't serve index.html for every path, so routes live in the hash */
+export const USE_HASH_ROUTER = true;
+
+/* a full url for a route, that works whichever router is in use */
+export const makeLink = (path: string): string => {
+  const { origin, pathname } = window.location;
+  return USE_HASH_ROUTER ? `${origin}${pathname}#${path}` : `${origin}${path}`;
+};
+
+/* PGN as url safe base64 so that it fits in a single path segment */
+export const encodePgn = (pgn: string): string => {
+  let binary = '';
+  new TextEncoder().encode(pgn).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/* throws if the link has been cut short or changed */
+export const decodePgn = (encoded: string): string => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    throw new Error('this game link is broken, it may have been cut short when copied');
+  }
+};
+
+/* a link to replay a game, or to play from a position */
+export const gameLink = (route: string, options: { fen?: string, variant?: string, pgn?: string }): string => {
+  if (options.pgn) {
+    return makeLink(`/analysis/${encodePgn(options.pgn)}`);
+  }
+
+  const params = new URLSearchParams();
+  if (options.fen) {
+    params.set('fen', options.fen);
+  }
+  if (options.variant && options.variant !== 'standard') {
+    params.set('variant', options.variant);
+  }
+  const search = params.toString();
+  return makeLink(search ? `${route}?${search}` : route);
+};